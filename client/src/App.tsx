@@ -1,25 +1,30 @@
-import { useState } from "react";
+import { useMemo } from "react";
 import React from "react";
 import { ThemeProvider, useTheme } from "./components/ThemeProvider";
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation, useSearch } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider, useQuery } from "@tanstack/react-query";
+import { QueryClientProvider, useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { BookOpen, Upload, AlertCircle } from "lucide-react";
+import type { Page, ResourceFacets, ResourceListItem, ResourcePage } from "@shared/schema";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
+import { browsePath, filtersFromQueryString, filtersToQueryString } from "@/lib/browseFilters";
 
 // Components
 import Landing from "./components/Landing";
 import Home from "./components/Home";
 import Dashboard from "./components/Dashboard";
 import UploadResource from "./components/UploadResource";
-import SearchFilters from "./components/SearchFilters";
+import SearchFilters, { type SearchFilterValues } from "./components/SearchFilters";
+import SaveSearchDialog from "./components/SaveSearchDialog";
 import ResourceCard from "./components/ResourceCard";
+import ResourceDetail from "./components/ResourceDetail";
 import AppSidebar from "./components/AppSidebar";
 import Header from "./components/Header";
 import Settings from "./components/Settings";
@@ -28,68 +33,121 @@ import Trending from "./components/Trending";
 import NotFound from "@/pages/not-found";
 
 
-interface Resource {
-  id: string;
-  title: string;
-  description: string | null;
-  subject: string;
-  semester: string | null;
-  fileType: string;
-  fileName: string;
-  fileSize: number;
-  filePath: string;
-  uploadedById: string;
-  downloadCount: number | null;
-  averageRating: string | null;
-  ratingCount: number | null;
-  isActive: boolean | null;
-  createdAt: Date | null;
-  updatedAt: Date | null;
-  uploadedBy?: {
-    firstName?: string;
-    lastName?: string;
-    username?: string;
-  };
+// Number of resources fetched per infinite-scroll page
+const PAGE_SIZE = 24;
+
+// Placed after a paginated grid; fetches the next page as it scrolls into view
+function LoadMoreSentinel({ hasMore, isLoading, loadMore }: {
+  hasMore: boolean;
+  isLoading: boolean;
+  loadMore: () => void;
+}) {
+  const sentinelRef = useInfiniteScroll({ hasMore, isLoading, loadMore });
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className="py-6 text-center text-sm text-muted-foreground" data-testid="load-more-sentinel">
+      {isLoading ? 'Loading more...' : ''}
+    </div>
+  );
+}
+
+// Query parameters shared by the resource list and its facet counts
+function buildFilterParams(filters: SearchFilterValues) {
+  const params = new URLSearchParams();
+  
+  if (filters.query) {
+    params.append('search', filters.query);
+    params.append('fuzzy', 'true');
+  }
+  if (filters.subject && filters.subject !== "All Subjects") {
+    params.append('subject', filters.subject);
+  }
+  if (filters.semester && filters.semester !== "All Semesters") {
+    params.append('semester', filters.semester);
+  }
+  if (filters.minRating && filters.minRating !== "all") {
+    params.append('minRating', filters.minRating);
+  }
+  filters.fileTypes.forEach(fileType => params.append('fileType', fileType));
+  if (filters.tags.length > 0) {
+    params.append('tags', filters.tags.join(','));
+    params.append('tagMode', filters.tagMode);
+  }
+  if (filters.uploader.trim()) {
+    params.append('uploader', filters.uploader.trim());
+  }
+  // Date inputs are local calendar days; send the whole day in the user's timezone
+  if (filters.dateFrom) {
+    params.append('uploadedAfter', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+  }
+  if (filters.dateTo) {
+    params.append('uploadedBefore', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+  }
+  if (filters.minSizeMb !== "any") {
+    params.append('minSize', String(parseFloat(filters.minSizeMb) * 1024 * 1024));
+  }
+  if (filters.maxSizeMb !== "any") {
+    params.append('maxSize', String(parseFloat(filters.maxSizeMb) * 1024 * 1024));
+  }
+  
+  return params;
 }
 
 function BrowseResources() {
-  const [filters, setFilters] = useState({
-    query: '',
-    subject: '',
-    minRating: '',
-    sortBy: 'newest' as const
-  });
+  // Filters live in the URL so browse results can be bookmarked, shared and saved
+  const searchString = useSearch();
+  const [, setLocation] = useLocation();
+  const filters = useMemo(() => filtersFromQueryString(searchString), [searchString]);
+  const setFilters = (newFilters: SearchFilterValues) => setLocation(browsePath(newFilters));
+  const { sortBy, ...facetFilters } = filters;
 
-  // Fetch resources with current filters
-  const { data: resources, isLoading } = useQuery({
+  // Fetch resources with current filters, one page at a time
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
     queryKey: ['/api/resources', filters],
-    queryFn: () => {
-      const params = new URLSearchParams();
+    queryFn: async ({ pageParam }): Promise<ResourcePage> => {
+      const params = buildFilterParams(filters);
       
-      if (filters.query) params.append('search', filters.query);
-      if (filters.subject && filters.subject !== "All Subjects") {
-        params.append('subject', filters.subject);
+      if (filters.query) {
+        params.append('highlight', 'true');
       }
-      if (filters.minRating && filters.minRating !== "all") {
-        params.append('minRating', filters.minRating);
+      params.append('sortBy', sortBy);
+      params.append('limit', String(PAGE_SIZE));
+      if (pageParam) {
+        params.append('cursor', pageParam);
       }
-      params.append('sortBy', filters.sortBy);
-      params.append('limit', '50'); // Reasonable limit for browsing
       
+      const res = await fetch(`/api/resources?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch resources: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const resources = data?.pages.flatMap(page => page.items);
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+  const suggestion = data?.pages[0]?.suggestion;
+
+  // Fetch per-option result counts for the filter panel
+  const { data: facets } = useQuery<ResourceFacets>({
+    queryKey: ['/api/resources/facets', facetFilters],
+    queryFn: async () => {
+      const params = buildFilterParams(filters);
       const queryString = params.toString();
-      return fetch(`/api/resources${queryString ? '?' + queryString : ''}`)
-        .then(res => res.json());
+      const res = await fetch(`/api/resources/facets${queryString ? '?' + queryString : ''}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch facets: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
     },
   });
 
-  const handleSearch = (newFilters: typeof filters) => {
+  const handleSearch = (newFilters: SearchFilterValues) => {
     console.log("Updating filters:", newFilters);
-    setFilters({
-      query: newFilters.query || '',
-      subject: newFilters.subject || '',
-      minRating: newFilters.minRating || '',
-      sortBy: newFilters.sortBy || 'newest'
-    });
+    setFilters(newFilters);
   };
 
   return (
@@ -99,13 +157,14 @@ function BrowseResources() {
         <p className="text-muted-foreground">Discover study materials shared by your peers</p>
       </div>
       
-      <SearchFilters onSearch={handleSearch} />
+      <SearchFilters onSearch={handleSearch} value={filters} facets={facets} />
       
       <div>
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-medium">
-            {isLoading ? 'Loading...' : `${resources?.length || 0} resources found`}
+            {isLoading ? 'Loading...' : `${totalCount} resource${totalCount === 1 ? '' : 's'} found`}
           </h2>
+          {searchString && <SaveSearchDialog query={filtersToQueryString(filters)} />}
         </div>
         
         {isLoading ? (
@@ -127,16 +186,38 @@ function BrowseResources() {
             ))}
           </div>
         ) : resources && resources.length > 0 ? (
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {resources.map((resource: Resource) => (
-              <ResourceCard key={resource.id} resource={resource} />
-            ))}
-          </div>
+          <>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {resources.map((resource: ResourceListItem) => (
+                <ResourceCard key={resource.id} resource={resource} />
+              ))}
+            </div>
+            <LoadMoreSentinel
+              hasMore={!!hasNextPage}
+              isLoading={isFetchingNextPage}
+              loadMore={fetchNextPage}
+            />
+          </>
         ) : (
           <div className="text-center py-12">
             <BookOpen className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-muted-foreground">No resources found matching your criteria.</p>
-            <p className="text-sm text-muted-foreground mt-2">Try adjusting your filters or search terms.</p>
+            {suggestion ? (
+              <p className="text-sm text-muted-foreground mt-2" data-testid="search-suggestion">
+                Did you mean{' '}
+                <button
+                  type="button"
+                  className="font-medium text-primary hover:underline"
+                  onClick={() => setFilters({ ...filters, query: suggestion })}
+                  data-testid="button-search-suggestion"
+                >
+                  {suggestion}
+                </button>
+                ?
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground mt-2">Try adjusting your filters or search terms.</p>
+            )}
           </div>
         )}
       </div>
@@ -145,11 +226,16 @@ function BrowseResources() {
 }
 
 function Favorites({ user }: { user: any }) {
-  // Fetch user's favorite resources
-  const { data: favorites, isLoading, error, refetch } = useQuery({
+  // Fetch user's favorite resources, one page at a time
+  const { data, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
     queryKey: ['/api/users/me/favorites', user?.id],
-    queryFn: async () => {
-      const res = await fetch('/api/users/me/favorites', {
+    queryFn: async ({ pageParam }): Promise<Page<ResourceListItem>> => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (pageParam) {
+        params.append('cursor', pageParam);
+      }
+      
+      const res = await fetch(`/api/users/me/favorites?${params.toString()}`, {
         credentials: 'include'
       });
       if (!res.ok) {
@@ -157,8 +243,11 @@ function Favorites({ user }: { user: any }) {
       }
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user?.id, // Only fetch if user is authenticated
   });
+  const favorites = data?.pages.flatMap(page => page.items);
 
   return (
     <div className="space-y-6">
@@ -194,12 +283,19 @@ function Favorites({ user }: { user: any }) {
             </Card>
           ))}
         </div>
-      ) : favorites && Array.isArray(favorites) && favorites.length > 0 ? (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" data-testid="favorites-grid">
-          {favorites.map((resource: Resource) => (
-            <ResourceCard key={resource.id} resource={resource} data-testid={`favorite-resource-${resource.id}`} />
-          ))}
-        </div>
+      ) : favorites && favorites.length > 0 ? (
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" data-testid="favorites-grid">
+            {favorites.map((resource: ResourceListItem) => (
+              <ResourceCard key={resource.id} resource={resource} data-testid={`favorite-resource-${resource.id}`} />
+            ))}
+          </div>
+          <LoadMoreSentinel
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            loadMore={fetchNextPage}
+          />
+        </>
       ) : (
         <div className="text-center py-12" data-testid="favorites-empty-state">
           <BookOpen className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -218,22 +314,31 @@ function Favorites({ user }: { user: any }) {
 }
 
 function MyResources({ user }: { user: any }) {
-  // Fetch user's own resources
-  const { data: userResources, isLoading } = useQuery({
+  // Fetch user's own resources, one page at a time
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
     queryKey: ['/api/resources', { userId: user?.id }],
-    queryFn: () => {
+    queryFn: async ({ pageParam }): Promise<ResourcePage> => {
       const params = new URLSearchParams();
       if (user?.id) {
         params.append('userId', user.id);
       }
       params.append('sortBy', 'newest');
+      params.append('limit', String(PAGE_SIZE));
+      if (pageParam) {
+        params.append('cursor', pageParam);
+      }
       
-      const queryString = params.toString();
-      return fetch(`/api/resources${queryString ? '?' + queryString : ''}`)
-        .then(res => res.json());
+      const res = await fetch(`/api/resources?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch resources: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user?.id, // Only fetch if user ID is available
   });
+  const userResources = data?.pages.flatMap(page => page.items);
   
   return (
     <div className="space-y-6">
@@ -261,11 +366,18 @@ function MyResources({ user }: { user: any }) {
           ))}
         </div>
       ) : userResources && userResources.length > 0 ? (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {userResources.map((resource: Resource) => (
-            <ResourceCard key={resource.id} resource={resource} />
-          ))}
-        </div>
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {userResources.map((resource: ResourceListItem) => (
+              <ResourceCard key={resource.id} resource={resource} />
+            ))}
+          </div>
+          <LoadMoreSentinel
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            loadMore={fetchNextPage}
+          />
+        </>
       ) : (
         <div className="text-center py-12">
           <BookOpen className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -289,6 +401,9 @@ function AuthenticatedRouter({ user }: { user: any }) {
       <Route path="/browse">
         <BrowseResources />
       </Route>
+      <Route path="/resources/:id">
+        {(params) => <ResourceDetail id={params.id} />}
+      </Route>
       <Route path="/upload">
         <UploadResource />
       </Route>
@@ -323,6 +438,7 @@ function UnauthenticatedRouter() {
 
 function AuthenticatedApp({ user }: { user: any }) {
   const { theme, toggleTheme } = useTheme();
+  const [location, setLocation] = useLocation();
 
   // Custom sidebar width
   const style = {
@@ -361,7 +477,8 @@ function AuthenticatedApp({ user }: { user: any }) {
     <SidebarProvider style={style as React.CSSProperties}>
       <div className="flex h-screen w-full">
         <AppSidebar 
-          onNavigate={(path) => window.location.pathname = path}
+          activeItem={location}
+          onNavigate={setLocation}
           userName={getUserDisplayName()}
           userInitials={getUserInitials()}
           userMajor={user?.major || "Student"}
@@ -370,7 +487,7 @@ function AuthenticatedApp({ user }: { user: any }) {
           <Header 
             theme={theme}
             onThemeToggle={toggleTheme}
-            onSearch={(query) => console.log("Global search:", query)}
+            onNavigate={setLocation}
             userName={getUserDisplayName()}
             userInitials={getUserInitials()}
             notificationCount={0}
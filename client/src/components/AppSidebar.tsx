@@ -8,8 +8,11 @@ import {
   Users,
   TrendingUp,
   GraduationCap,
-  LogOut
+  LogOut,
+  Bookmark,
+  X
 } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
   Sidebar,
   SidebarContent,
@@ -18,6 +21,7 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarRail,
@@ -26,6 +30,8 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { SavedSearch } from "@shared/schema";
 
 // Navigation items
 const navigationItems = [
@@ -102,6 +108,20 @@ export default function AppSidebar({
     console.log("Logout clicked");
   };
 
+  // Fetch the user's saved browse searches
+  const { data: savedSearches } = useQuery<SavedSearch[]>({
+    queryKey: ['/api/users/me/saved-searches'],
+  });
+
+  const deleteSavedSearchMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/users/me/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/saved-searches'] });
+    },
+  });
+
   return (
     <Sidebar className="w-64">
       <SidebarHeader className="p-4">
@@ -172,6 +192,41 @@ export default function AppSidebar({
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {savedSearches && savedSearches.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Saved Searches</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {savedSearches.map((savedSearch) => (
+                  <SidebarMenuItem key={savedSearch.id}>
+                    <SidebarMenuButton 
+                      asChild
+                      size="sm"
+                      data-testid={`saved-search-${savedSearch.id}`}
+                    >
+                      <button 
+                        onClick={() => handleNavigation(savedSearch.query ? `/browse?${savedSearch.query}` : '/browse')}
+                        className="w-full flex items-center space-x-2 text-left text-sm"
+                      >
+                        <Bookmark className="h-4 w-4" />
+                        <span className="truncate">{savedSearch.name}</span>
+                      </button>
+                    </SidebarMenuButton>
+                    <SidebarMenuAction
+                      showOnHover
+                      onClick={() => deleteSavedSearchMutation.mutate(savedSearch.id)}
+                      data-testid={`button-delete-saved-search-${savedSearch.id}`}
+                    >
+                      <X />
+                      <span className="sr-only">Delete saved search</span>
+                    </SidebarMenuAction>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         <SidebarGroup>
           <SidebarGroupLabel>Popular Subjects</SidebarGroupLabel>
           <SidebarGroupContent>
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { FileText, GraduationCap, Search, Tag, User } from "lucide-react";
+import { browsePath } from "@/lib/browseFilters";
+import { defaultSearchFilters } from "./SearchFilters";
+import type { ResourceUploader, SearchSuggestions } from "@shared/schema";
+
+// Wait for a pause in typing before asking the server
+const SUGGEST_DEBOUNCE_MS = 150;
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate?: (path: string) => void;
+}
+
+const getContributorName = (contributor: ResourceUploader) => {
+  if (contributor.firstName && contributor.lastName) {
+    return `${contributor.firstName} ${contributor.lastName}`;
+  }
+  return contributor.fullName || contributor.username || "Unknown";
+};
+
+export default function CommandPalette({ open, onOpenChange, onNavigate }: CommandPaletteProps) {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), SUGGEST_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  // Start from an empty palette each time it opens
+  useEffect(() => {
+    if (!open) {
+      setInput("");
+      setQuery("");
+    }
+  }, [open]);
+
+  const { data: suggestions, isFetching } = useQuery<SearchSuggestions>({
+    queryKey: ['/api/search/suggest', query],
+    queryFn: async () => {
+      const res = await fetch(`/api/search/suggest?q=${encodeURIComponent(query)}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch suggestions: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
+    },
+    enabled: open && query.length > 0,
+    placeholderData: (previous) => previous,
+    staleTime: 30_000,
+  });
+
+  const select = (path: string) => {
+    onOpenChange(false);
+    onNavigate?.(path);
+  };
+
+  const hasResults = !!suggestions && (
+    suggestions.resources.length > 0 ||
+    suggestions.subjects.length > 0 ||
+    suggestions.tags.length > 0 ||
+    suggestions.contributors.length > 0
+  );
+
+  return (
+    // Results are already ranked by the server, so cmdk's own filtering is off
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search resources, subjects, tags, contributors..."
+        value={input}
+        onValueChange={setInput}
+        data-testid="input-command-search"
+      />
+      <CommandList>
+        {input.trim() && (
+          <CommandGroup>
+            <CommandItem
+              value="search-all"
+              onSelect={() => select(browsePath({ ...defaultSearchFilters, query: input.trim() }))}
+              data-testid="command-search-all"
+            >
+              <Search />
+              <span>Search all resources for "{input.trim()}"</span>
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {/* The "search all" item is always present, so cmdk's CommandEmpty never shows */}
+        {query && !hasResults && (
+          <p className="py-6 text-center text-sm text-muted-foreground" data-testid="command-no-results">
+            {isFetching ? 'Searching...' : 'No matches found.'}
+          </p>
+        )}
+
+        {suggestions && suggestions.resources.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Resources">
+              {suggestions.resources.map((resource) => (
+                <CommandItem
+                  key={resource.id}
+                  value={`resource-${resource.id}`}
+                  onSelect={() => select(`/resources/${resource.id}`)}
+                  data-testid={`command-resource-${resource.id}`}
+                >
+                  <FileText />
+                  <span className="truncate">{resource.title}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{resource.subject}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {suggestions && suggestions.subjects.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Subjects">
+              {suggestions.subjects.map((subject) => (
+                <CommandItem
+                  key={subject.value}
+                  value={`subject-${subject.value}`}
+                  onSelect={() => select(browsePath({ ...defaultSearchFilters, subject: subject.value }))}
+                  data-testid={`command-subject-${subject.value}`}
+                >
+                  <GraduationCap />
+                  <span>{subject.value}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{subject.count}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {suggestions && suggestions.tags.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Tags">
+              {suggestions.tags.map((tag) => (
+                <CommandItem
+                  key={tag.value}
+                  value={`tag-${tag.value}`}
+                  onSelect={() => select(browsePath({ ...defaultSearchFilters, tags: [tag.value] }))}
+                  data-testid={`command-tag-${tag.value}`}
+                >
+                  <Tag />
+                  <span>{tag.value}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{tag.count}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {suggestions && suggestions.contributors.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Contributors">
+              {suggestions.contributors.map((contributor) => (
+                <CommandItem
+                  key={contributor.id}
+                  value={`contributor-${contributor.id}`}
+                  onSelect={() => select(browsePath({
+                    ...defaultSearchFilters,
+                    uploader: contributor.username || getContributorName(contributor),
+                  }))}
+                  data-testid={`command-contributor-${contributor.id}`}
+                >
+                  <User />
+                  <span>{getContributorName(contributor)}</span>
+                  {contributor.username && (
+                    <span className="ml-auto text-xs text-muted-foreground">@{contributor.username}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -15,7 +15,9 @@ export default function Dashboard() {
   // Fetch recent resources (limit to 6 for dashboard)
   const { data: recentResources, isLoading: resourcesLoading } = useQuery({
     queryKey: ['/api/resources', { limit: 6, sortBy: 'newest' }],
-    queryFn: () => fetch('/api/resources?limit=6&sortBy=newest').then(res => res.json()),
+    queryFn: () => fetch('/api/resources?limit=6&sortBy=newest')
+      .then(res => res.json())
+      .then(page => page.items),
   });
 
   // Transform stats data for display
@@ -1,5 +1,4 @@
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { 
   DropdownMenu, 
@@ -21,10 +20,11 @@ import {
   Sun,
   Upload
 } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import CommandPalette from "./CommandPalette";
 
 interface HeaderProps {
-  onSearch?: (query: string) => void;
+  onNavigate?: (path: string) => void;
   onThemeToggle?: () => void;
   onLogout?: () => void;
   theme?: "light" | "dark";
@@ -34,7 +34,7 @@ interface HeaderProps {
 }
 
 export default function Header({ 
-  onSearch,
+  onNavigate,
   onThemeToggle,
   onLogout,
   theme = "light",
@@ -42,13 +42,20 @@ export default function Header({
   userInitials = "U",
   notificationCount = 3
 }: HeaderProps) {
-  const [searchQuery, setSearchQuery] = useState("");
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    console.log("Header search:", searchQuery);
-    onSearch?.(searchQuery);
-  };
+  // Ctrl+K (Cmd+K on macOS) toggles the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   const handleProfileAction = (action: string) => {
     console.log("Profile action:", action);
@@ -67,19 +74,20 @@ export default function Header({
         {/* Sidebar Toggle */}
         <SidebarTrigger className="mr-4" data-testid="button-sidebar-toggle" />
         
-        {/* Search Bar */}
-        <form onSubmit={handleSearch} className="flex-1 max-w-md">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-            <Input
-              placeholder="Search resources..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10 pr-4"
-              data-testid="input-header-search"
-            />
-          </div>
-        </form>
+        {/* Search Bar - opens the command palette */}
+        <Button
+          variant="outline"
+          className="flex-1 max-w-md justify-start font-normal text-muted-foreground"
+          onClick={() => setPaletteOpen(true)}
+          data-testid="input-header-search"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          <span className="flex-1 text-left">Search resources...</span>
+          <kbd className="pointer-events-none hidden sm:inline-flex h-5 items-center rounded border bg-muted px-1.5 text-[10px] font-medium">
+            Ctrl K
+          </kbd>
+        </Button>
+        <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} onNavigate={onNavigate} />
 
         {/* Right Side Actions */}
         <div className="flex items-center space-x-2 ml-4">
@@ -2,37 +2,60 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Download, Star, FileText, File } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
+import { Download, Star, FileText, File, FileImage, FileSpreadsheet, FileCode, FileArchive, Presentation, type LucideIcon } from "lucide-react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useResourceDownload } from "@/hooks/useResourceDownload";
+import { useResourceRating } from "@/hooks/useResourceRating";
 import RatingSystem from "@/components/RatingSystem";
-import type { Resource } from "@shared/schema";
+import ReviewDialog from "@/components/ReviewDialog";
+import type { ResourceListItem, User } from "@shared/schema";
+import { fileTypeByExtension, fileTypeByMimeType, type FileTypeFamily } from "@shared/fileTypes";
 
 interface ResourceCardProps {
-  resource: Resource;
+  resource: ResourceListItem;
 }
 
-const getFileIcon = (fileType: string) => {
+const FILE_ICONS: Record<FileTypeFamily, { icon: LucideIcon; className: string }> = {
+  pdf: { icon: FileText, className: "text-red-600" },
+  doc: { icon: File, className: "text-blue-600" },
+  presentation: { icon: Presentation, className: "text-orange-600" },
+  spreadsheet: { icon: FileSpreadsheet, className: "text-emerald-600" },
+  image: { icon: FileImage, className: "text-green-600" },
+  text: { icon: FileText, className: "text-slate-600" },
+  code: { icon: FileCode, className: "text-purple-600" },
+  archive: { icon: FileArchive, className: "text-amber-600" },
+};
+
+export const getFileIcon = (fileType: string, size = "h-4 w-4") => {
   // Handle both MIME types and file extensions
-  const type = fileType.toLowerCase();
-  if (type.includes('pdf') || type === 'pdf') {
-    return <FileText className="h-4 w-4 text-red-600" />;
-  }
-  if (type.includes('word') || type.includes('document') || 
-      type === 'docx' || type === 'doc' || 
-      type.includes('vnd.openxmlformats-officedocument.wordprocessingml.document') ||
-      type.includes('msword')) {
-    return <File className="h-4 w-4 text-blue-600" />;
+  const family = (fileTypeByMimeType(fileType) ?? fileTypeByExtension(fileType))?.family;
+  if (!family) {
+    return <File className={`${size} text-muted-foreground`} />;
   }
-  if (type.includes('image') || type.includes('jpeg') || type.includes('png')) {
-    return <File className="h-4 w-4 text-green-600" />;
-  }
-  return <File className="h-4 w-4 text-muted-foreground" />;
+  const { icon: Icon, className } = FILE_ICONS[family];
+  return <Icon className={`${size} ${className}`} />;
+};
+
+// Renders a search snippet, turning the server's <mark></mark> delimiters into
+// highlight elements while keeping everything else as plain text
+const renderSnippet = (snippet: string) => {
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) => {
+    const match = part.match(/^<mark>(.*)<\/mark>$/);
+    if (match) {
+      return (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">
+          {match[1]}
+        </mark>
+      );
+    }
+    return <span key={index}>{part}</span>;
+  });
 };
 
 // Helper function to format relative time
-const formatRelativeTime = (date: Date | string) => {
+export const formatRelativeTime = (date: Date | string) => {
   const now = new Date();
   const resourceDate = new Date(date);
   const diffInMs = now.getTime() - resourceDate.getTime();
@@ -47,7 +70,7 @@ const formatRelativeTime = (date: Date | string) => {
 };
 
 // Helper function to get user display name
-const getUserDisplayName = (user: any, fallbackId?: string) => {
+export const getUserDisplayName = (user: any, fallbackId?: string) => {
   if (!user) return fallbackId ? `User ${fallbackId.slice(0, 8)}` : "Unknown User";
   if (typeof user === 'string') return user; // Handle legacy string format
   if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
@@ -58,73 +81,25 @@ const getUserDisplayName = (user: any, fallbackId?: string) => {
 };
 
 export default function ResourceCard({ resource }: ResourceCardProps) {
-  const { toast } = useToast();
-  
-  // Mutation for downloading file (this will handle both download and count increment)
-  const downloadMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch(`/api/resources/${resource.id}/download`, {
-        method: 'GET',
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-      }
-      
-      // Get the filename from the response headers or use a default
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = resource.fileName;
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (filenameMatch) {
-          filename = filenameMatch[1];
-        }
-      }
-      
-      // Create blob and download
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-      
-      return { filename };
-    },
-    onSuccess: (data) => {
-      // Invalidate resources queries to update download count
-      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/users/me/favorites'] });
-      toast({
-        title: "Download successful",
-        description: `${data.filename} has been downloaded.`,
-      });
-    },
-    onError: (error: Error) => {
-      console.error('Download error:', error);
-      toast({
-        title: "Download failed",
-        description: error.message || "Could not download the resource. Please try again.",
-        variant: "destructive",
-      });
-    },
+  const downloadMutation = useResourceDownload(resource);
+  const { data: user } = useQuery<User>({ queryKey: ['/api/auth/user'] });
+  // Uploaders cannot rate their own resources
+  const isOwnResource = resource.uploadedById === user?.id;
+  const rating = useResourceRating(resource.id, {
+    averageRating: parseFloat(resource.averageRating || "0"),
+    ratingCount: resource.ratingCount || 0,
+    userRating: resource.userRating,
   });
 
+  // Star clicked to open the review dialog, or null while it is closed
+  const [reviewStars, setReviewStars] = useState<number | null>(null);
+
   const handleDownload = () => {
     downloadMutation.mutate();
   };
 
-  const handleRating = (rating: number) => {
-    console.log("Rating resource:", resource.id, "with", rating, "stars");
-    // TODO: Implement rating functionality
-    toast({
-      title: "Rating submitted",
-      description: `You rated this resource ${rating} stars.`,
-    });
+  const handleRating = (stars: number) => {
+    setReviewStars(stars);
   };
 
   return (
@@ -149,13 +124,21 @@ export default function ResourceCard({ resource }: ResourceCardProps) {
           </Button>
         </div>
         <CardTitle className="text-base line-clamp-2" data-testid={`title-resource-${resource.id}`}>
-          {resource.title}
+          <Link href={`/resources/${resource.id}`} className="hover:underline">
+            {resource.title}
+          </Link>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
-        <p className="text-sm text-muted-foreground line-clamp-2" data-testid={`description-resource-${resource.id}`}>
-          {resource.description}
-        </p>
+        {resource.snippet ? (
+          <p className="text-sm text-muted-foreground line-clamp-3" data-testid={`snippet-resource-${resource.id}`}>
+            {renderSnippet(resource.snippet)}
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground line-clamp-2" data-testid={`description-resource-${resource.id}`}>
+            {resource.description}
+          </p>
+        )}
         
         <div className="flex flex-wrap gap-1">
           <Badge variant="secondary" className="text-xs" data-testid={`subject-${resource.subject.toLowerCase()}`}>
@@ -166,32 +149,49 @@ export default function ResourceCard({ resource }: ResourceCardProps) {
               {resource.semester}
             </Badge>
           )}
+          {resource.tags?.map((tag) => (
+            <Badge key={tag} variant="outline" className="text-xs" data-testid={`tag-${resource.id}-${tag.toLowerCase().replace(' ', '-')}`}>
+              {tag}
+            </Badge>
+          ))}
         </div>
 
         <div className="flex items-center justify-between">
           <RatingSystem 
-            rating={parseFloat(resource.averageRating || "0")} 
+            rating={rating.averageRating} 
             onRating={handleRating}
+            readonly={isOwnResource}
             size="sm"
             data-testid={`rating-resource-${resource.id}`}
           />
           <div className="flex items-center space-x-1 text-xs text-muted-foreground">
             <Star className="h-3 w-3 fill-current" />
             <span data-testid={`rating-value-${resource.id}`}>
-              {parseFloat(resource.averageRating || "0").toFixed(1)}
+              {rating.averageRating.toFixed(1)}
             </span>
+            <span>({rating.ratingCount})</span>
           </div>
         </div>
+        <ReviewDialog
+          open={reviewStars !== null}
+          onOpenChange={(open) => !open && setReviewStars(null)}
+          resourceId={resource.id}
+          resourceTitle={resource.title}
+          initialRating={reviewStars ?? rating.userRating ?? 0}
+          hasRated={rating.userRating !== null}
+          onSubmit={rating.saveRating}
+          onDelete={rating.deleteRating}
+        />
 
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <div className="flex items-center space-x-2">
             <Avatar className="h-5 w-5">
               <AvatarFallback className="text-xs">
-                {getUserDisplayName((resource as any).uploadedBy || resource.uploadedById, resource.uploadedById).split(' ').map((n: string) => n[0]).join('').toUpperCase()}
+                {getUserDisplayName(resource.uploadedBy, resource.uploadedById).split(' ').map((n: string) => n[0]).join('').toUpperCase()}
               </AvatarFallback>
             </Avatar>
             <span data-testid={`uploader-${resource.id}`}>
-              {getUserDisplayName((resource as any).uploadedBy || resource.uploadedById, resource.uploadedById)}
+              {getUserDisplayName(resource.uploadedBy, resource.uploadedById)}
             </span>
           </div>
           <span data-testid={`uploaded-time-${resource.id}`}>
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { CornerDownRight, EyeOff, MessagesSquare } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatRelativeTime, getUserDisplayName } from "./ResourceCard";
+import type { CommentEdit, CommentThread, CommentWithAuthor, Page, User } from "@shared/schema";
+
+const COMMENTS_PAGE_SIZE = 10;
+const MAX_COMMENT_LENGTH = 5000;
+// Deeper replies stop indenting so long chains stay readable
+const MAX_NESTING = 4;
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+function CommentForm({ initialBody = "", submitLabel, placeholder, isPending, onSubmit, onCancel, testId }: {
+  initialBody?: string;
+  submitLabel: string;
+  placeholder: string;
+  isPending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+  testId: string;
+}) {
+  const [body, setBody] = useState(initialBody);
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={3}
+        placeholder={placeholder}
+        onChange={(e) => setBody(e.target.value)}
+        data-testid={`textarea-${testId}`}
+      />
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={() => onSubmit(body.trim())}
+          disabled={!body.trim() || isPending}
+          data-testid={`button-submit-${testId}`}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Previous versions of an edited comment, loaded when first expanded
+function CommentHistory({ comment }: { comment: CommentWithAuthor }) {
+  const { data: edits, isLoading } = useQuery<CommentEdit[]>({
+    queryKey: ['/api/resources', comment.resourceId, 'comments', comment.id, 'history'],
+  });
+
+  if (isLoading) {
+    return <div className="h-8 bg-muted animate-pulse rounded" />;
+  }
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted/50 p-3" data-testid={`history-${comment.id}`}>
+      {edits?.map((edit) => (
+        <div key={edit.id}>
+          <span className="text-xs text-muted-foreground">
+            Before edit {formatRelativeTime(edit.editedAt || new Date())}
+          </span>
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{edit.body}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CommentItem({ comment, replies, depth, viewer }: {
+  comment: CommentWithAuthor;
+  replies: CommentWithAuthor[]; // Every reply in the thread, nested below by parentId
+  depth: number;
+  viewer: User | undefined;
+}) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"view" | "reply" | "edit">("view");
+  const [showHistory, setShowHistory] = useState(false);
+
+  const authorName = getUserDisplayName(comment.author, comment.userId);
+  const isAuthor = comment.userId === viewer?.id;
+  const isAdmin = viewer?.role === 'admin';
+  const isRemoved = comment.isDeleted || comment.body === null;
+  const children = replies.filter((reply) => reply.parentId === comment.id);
+
+  const commentMutation = useMutation({
+    mutationFn: async (action: { type: "reply" | "edit"; body: string } | { type: "delete" } | { type: "hide"; isHidden: boolean }) => {
+      const url = `/api/resources/${comment.resourceId}/comments`;
+      switch (action.type) {
+        case "reply":
+          await apiRequest('POST', url, { body: action.body, parentId: comment.id });
+          break;
+        case "edit":
+          await apiRequest('PUT', `${url}/${comment.id}`, { body: action.body });
+          break;
+        case "delete":
+          await apiRequest('DELETE', `${url}/${comment.id}`);
+          break;
+        case "hide":
+          await apiRequest('PUT', `/api/admin/comments/${comment.id}/status`, { isHidden: action.isHidden });
+          break;
+      }
+    },
+    onSuccess: () => {
+      setMode("view");
+      queryClient.invalidateQueries({ queryKey: ['/api/resources', comment.resourceId, 'comments'] });
+    },
+    onError: (error: Error) => {
+      console.error('Comment error:', error);
+      toast({
+        title: "Could not update the discussion",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div data-testid={`comment-${comment.id}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Avatar className="h-6 w-6">
+            {comment.author.profileImageUrl && <AvatarImage src={comment.author.profileImageUrl} />}
+            <AvatarFallback className="text-xs">{getInitials(authorName)}</AvatarFallback>
+          </Avatar>
+          <span className="text-sm font-medium">{authorName}</span>
+          {comment.isHidden && isAdmin && (
+            <Badge variant="secondary" className="text-xs">
+              <EyeOff className="h-3 w-3 mr-1" />
+              Hidden
+            </Badge>
+          )}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {formatRelativeTime(comment.createdAt || new Date())}
+        </span>
+      </div>
+
+      {mode === "edit" ? (
+        <div className="mt-2">
+          <CommentForm
+            initialBody={comment.body ?? ""}
+            submitLabel="Save"
+            placeholder="Edit your comment..."
+            isPending={commentMutation.isPending}
+            onSubmit={(body) => commentMutation.mutate({ type: "edit", body })}
+            onCancel={() => setMode("view")}
+            testId={`edit-comment-${comment.id}`}
+          />
+        </div>
+      ) : isRemoved ? (
+        <p className="mt-1 text-sm italic text-muted-foreground" data-testid={`text-comment-removed-${comment.id}`}>
+          {comment.isDeleted ? '[deleted]' : '[hidden by a moderator]'}
+        </p>
+      ) : (
+        <p className="mt-1 text-sm text-muted-foreground whitespace-pre-line" data-testid={`text-comment-${comment.id}`}>
+          {comment.body}
+        </p>
+      )}
+
+      {!isRemoved && mode === "view" && (
+        <div className="mt-1 flex items-center space-x-1 text-xs text-muted-foreground">
+          {viewer && !comment.isHidden && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("reply")} data-testid={`button-reply-comment-${comment.id}`}>
+              <CornerDownRight className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+          {isAuthor && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setMode("edit")} data-testid={`button-edit-comment-${comment.id}`}>
+              Edit
+            </Button>
+          )}
+          {(isAuthor || isAdmin) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => commentMutation.mutate({ type: "delete" })}
+              disabled={commentMutation.isPending}
+              data-testid={`button-delete-comment-${comment.id}`}
+            >
+              Delete
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => commentMutation.mutate({ type: "hide", isHidden: !comment.isHidden })}
+              disabled={commentMutation.isPending}
+              data-testid={`button-hide-comment-${comment.id}`}
+            >
+              {comment.isHidden ? 'Unhide' : 'Hide'}
+            </Button>
+          )}
+          {comment.editedAt && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setShowHistory(!showHistory)}
+              data-testid={`button-history-${comment.id}`}
+            >
+              (edited)
+            </Button>
+          )}
+        </div>
+      )}
+
+      {showHistory && !isRemoved && (
+        <div className="mt-2">
+          <CommentHistory comment={comment} />
+        </div>
+      )}
+
+      {mode === "reply" && (
+        <div className="mt-2 ml-6">
+          <CommentForm
+            submitLabel="Post reply"
+            placeholder={`Reply to ${authorName}...`}
+            isPending={commentMutation.isPending}
+            onSubmit={(body) => commentMutation.mutate({ type: "reply", body })}
+            onCancel={() => setMode("view")}
+            testId={`reply-comment-${comment.id}`}
+          />
+        </div>
+      )}
+
+      {children.length > 0 && (
+        <div className={`mt-3 space-y-3 ${depth < MAX_NESTING ? 'ml-6 border-l-2 pl-3' : ''}`}>
+          {children.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} replies={replies} depth={depth + 1} viewer={viewer} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ResourceComments({ resourceId }: { resourceId: string }) {
+  const { toast } = useToast();
+  const { data: user } = useQuery<User>({ queryKey: ['/api/auth/user'] });
+  // Remounts the new-comment form so it clears after posting
+  const [formKey, setFormKey] = useState(0);
+
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ['/api/resources', resourceId, 'comments'],
+    queryFn: async ({ pageParam }): Promise<Page<CommentThread>> => {
+      const params = new URLSearchParams({ limit: String(COMMENTS_PAGE_SIZE) });
+      if (pageParam) {
+        params.append('cursor', pageParam);
+      }
+
+      const res = await fetch(`/api/resources/${resourceId}/comments?${params.toString()}`, {
+        credentials: 'include'
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch comments: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const threads = data?.pages.flatMap(page => page.items) ?? [];
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+
+  const postMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest('POST', `/api/resources/${resourceId}/comments`, { body });
+    },
+    onSuccess: () => {
+      setFormKey((key) => key + 1);
+      queryClient.invalidateQueries({ queryKey: ['/api/resources', resourceId, 'comments'] });
+    },
+    onError: (error: Error) => {
+      console.error('Comment error:', error);
+      toast({
+        title: "Could not post your comment",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Discussion</CardTitle>
+        <CardDescription>
+          {totalCount} thread{totalCount === 1 ? '' : 's'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user && (
+          <CommentForm
+            key={formKey}
+            submitLabel="Post comment"
+            placeholder="Ask a question or start a discussion..."
+            isPending={postMutation.isPending}
+            onSubmit={(body) => postMutation.mutate(body)}
+            testId="new-comment"
+          />
+        )}
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : threads.length > 0 ? (
+          <div className="space-y-4">
+            {threads.map((thread, index) => (
+              <div key={thread.id}>
+                {index > 0 && <Separator className="mb-4" />}
+                <CommentItem comment={thread} replies={thread.replies} depth={0} viewer={user} />
+              </div>
+            ))}
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-more-comments"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Show more threads'}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <MessagesSquare className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">No comments yet.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { AlertCircle, ArrowLeft, Download, Eye, Heart, Star } from "lucide-react";
+import { Bar, BarChart, XAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useResourceDownload } from "@/hooks/useResourceDownload";
+import { useResourceRating } from "@/hooks/useResourceRating";
+import RatingSystem from "@/components/RatingSystem";
+import ReviewDialog from "@/components/ReviewDialog";
+import ResourceReviews, { RatingBreakdown } from "./ResourceReviews";
+import ResourceComments from "./ResourceComments";
+import { formatRelativeTime, getFileIcon, getUserDisplayName } from "./ResourceCard";
+import type { DownloadHistoryDay, ResourceWithDetails, User } from "@shared/schema";
+import { isPreviewable } from "@shared/fileTypes";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+const downloadChartConfig = {
+  uniqueDownloads: { label: "Downloads", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Unique downloads per day over the last 30 days
+function DownloadHistory({ resourceId }: { resourceId: string }) {
+  const { data: history } = useQuery<DownloadHistoryDay[]>({
+    queryKey: ['/api/resources', resourceId, 'downloads', 'history'],
+  });
+
+  if (!history) return null;
+  const total = history.reduce((sum, day) => sum + day.uniqueDownloads, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Download history</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-2" data-testid="text-download-history-total">
+          {total} download{total === 1 ? '' : 's'} in the last 30 days
+        </p>
+        <ChartContainer config={downloadChartConfig} className="h-32 w-full" data-testid="chart-download-history">
+          <BarChart data={history}>
+            <XAxis dataKey="date" hide />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="uniqueDownloads" fill="var(--color-uniqueDownloads)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ResourcePreview({ resource }: { resource: ResourceWithDetails }) {
+  const previewUrl = `/api/resources/${resource.id}/preview`;
+
+  if (!isPreviewable(resource.fileType)) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-md border border-dashed py-12 text-center" data-testid="preview-unavailable">
+        <Eye className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">Preview is not available for this file type.</p>
+        <p className="text-sm text-muted-foreground">Download the file to view it.</p>
+      </div>
+    );
+  }
+
+  if (resource.fileType === 'application/pdf') {
+    return (
+      <iframe
+        src={previewUrl}
+        title={`Preview of ${resource.title}`}
+        className="h-[600px] w-full rounded-md border"
+        data-testid="preview-pdf"
+      />
+    );
+  }
+
+  return (
+    <img
+      src={previewUrl}
+      alt={resource.title}
+      className="mx-auto max-h-[600px] rounded-md border object-contain"
+      data-testid="preview-image"
+    />
+  );
+}
+
+export default function ResourceDetail({ id }: { id: string }) {
+  const { toast } = useToast();
+
+  const { data: resource, isLoading, error } = useQuery<ResourceWithDetails>({
+    queryKey: ['/api/resources', id],
+  });
+
+  const downloadMutation = useResourceDownload({ id, fileName: resource?.fileName ?? 'download' });
+  const rating = useResourceRating(id, {
+    averageRating: resource?.averageRating ?? 0,
+    ratingCount: resource?.ratingCount ?? 0,
+    userRating: resource?.userRating ?? null,
+  });
+  const [reviewStars, setReviewStars] = useState<number | null>(null);
+  const { data: user } = useQuery<User>({ queryKey: ['/api/auth/user'] });
+
+  const favoriteMutation = useMutation({
+    mutationFn: async (favorite: boolean) => {
+      await apiRequest(favorite ? 'POST' : 'DELETE', `/api/resources/${id}/favorites`);
+      return favorite;
+    },
+    onSuccess: (favorite) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/favorites'] });
+      toast({
+        title: favorite ? "Added to favorites" : "Removed from favorites",
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Favorite error:', error);
+      toast({
+        title: "Could not update favorites",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 w-2/3 bg-muted animate-pulse rounded" />
+        <div className="h-4 w-1/3 bg-muted animate-pulse rounded" />
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 h-64 bg-muted animate-pulse rounded" />
+          <div className="h-64 bg-muted animate-pulse rounded" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !resource) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-destructive mb-4" />
+        <p className="text-destructive font-medium">Resource not found</p>
+        <p className="text-sm text-muted-foreground mt-2">It may have been removed by its uploader.</p>
+        <Link href="/browse">
+          <Button variant="outline" className="mt-4" data-testid="button-back-to-browse">
+            Browse Resources
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const uploaderName = getUserDisplayName(resource.uploadedBy, resource.uploadedById);
+  // Uploaders cannot rate their own resources
+  const isOwnResource = resource.uploadedById === user?.id;
+
+  return (
+    <div className="space-y-6">
+      <Link href="/browse" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground" data-testid="link-back">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Back to resources
+      </Link>
+
+      {/* Title and actions */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            {getFileIcon(resource.fileType)}
+            <Badge variant="outline" className="text-xs">{resource.fileType}</Badge>
+          </div>
+          <h1 className="text-2xl font-medium text-foreground" data-testid="text-resource-title">
+            {resource.title}
+          </h1>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary">{resource.subject}</Badge>
+            {resource.semester && <Badge variant="secondary">{resource.semester}</Badge>}
+            {resource.resourceTags.map(({ tag }) => (
+              <Link key={tag.id} href={`/browse?tag=${encodeURIComponent(tag.name)}`}>
+                <Badge variant="outline" className="cursor-pointer" data-testid={`tag-${tag.name.toLowerCase().replace(' ', '-')}`}>
+                  {tag.name}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant={resource.isFavorited ? "secondary" : "outline"}
+            onClick={() => favoriteMutation.mutate(!resource.isFavorited)}
+            disabled={favoriteMutation.isPending}
+            data-testid="button-favorite"
+          >
+            <Heart className={`h-4 w-4 mr-2 ${resource.isFavorited ? 'fill-current text-red-500' : ''}`} />
+            {resource.isFavorited ? 'Favorited' : 'Favorite'}
+          </Button>
+          <Button
+            onClick={() => downloadMutation.mutate()}
+            disabled={downloadMutation.isPending}
+            data-testid="button-download"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {downloadMutation.isPending ? 'Downloading...' : 'Download'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Description */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Description</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground whitespace-pre-line" data-testid="text-resource-description">
+                {resource.description || 'No description provided.'}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Preview */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Preview</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResourcePreview resource={resource} />
+            </CardContent>
+          </Card>
+
+          <ResourceReviews resourceId={id} uploader={resource.uploadedBy} />
+
+          <ResourceComments resourceId={id} />
+        </div>
+
+        <div className="space-y-6">
+          {/* Rating summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rating</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Star className="h-5 w-5 fill-current text-yellow-500" />
+                <span className="text-2xl font-medium" data-testid="text-average-rating">
+                  {rating.averageRating.toFixed(1)}
+                </span>
+                <span className="text-sm text-muted-foreground">/ 5 ({rating.ratingCount})</span>
+              </div>
+              <RatingSystem rating={rating.averageRating} onRating={setReviewStars} readonly={isOwnResource} size="sm" />
+              <RatingBreakdown resourceId={id} />
+              {rating.userRating !== null && (
+                <p className="text-xs text-muted-foreground">You rated this {rating.userRating} star{rating.userRating === 1 ? '' : 's'}.</p>
+              )}
+              {!isOwnResource && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setReviewStars(rating.userRating ?? 5)}
+                  disabled={rating.isPending}
+                  data-testid="button-write-review"
+                >
+                  {rating.userRating !== null ? 'Edit your review' : 'Write a review'}
+                </Button>
+              )}
+              <ReviewDialog
+                open={reviewStars !== null}
+                onOpenChange={(open) => !open && setReviewStars(null)}
+                resourceId={id}
+                resourceTitle={resource.title}
+                initialRating={reviewStars ?? rating.userRating ?? 0}
+                hasRated={rating.userRating !== null}
+                onSubmit={rating.saveRating}
+                onDelete={rating.deleteRating}
+              />
+            </CardContent>
+          </Card>
+
+          {/* File metadata */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="space-y-2 text-sm">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">File name</dt>
+                  <dd className="truncate text-right" data-testid="text-file-name">{resource.fileName}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">Size</dt>
+                  <dd data-testid="text-file-size">{formatFileSize(resource.fileSize)}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">Downloads</dt>
+                  <dd data-testid="text-download-count">{resource.uniqueDownloadCount || 0}</dd>
+                </div>
+                {(resource.downloadCount || 0) > (resource.uniqueDownloadCount || 0) && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">Including repeats</dt>
+                    <dd data-testid="text-raw-download-count">{resource.downloadCount}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4">
+                  <dt className="text-muted-foreground">Uploaded</dt>
+                  <dd>{formatRelativeTime(resource.createdAt || new Date())}</dd>
+                </div>
+                {resource.updatedAt && resource.createdAt && new Date(resource.updatedAt) > new Date(resource.createdAt) && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-muted-foreground">Last updated</dt>
+                    <dd>{formatRelativeTime(resource.updatedAt)}</dd>
+                  </div>
+                )}
+              </dl>
+            </CardContent>
+          </Card>
+
+          <DownloadHistory resourceId={id} />
+
+          {/* Uploader */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Shared by</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center space-x-3">
+                <Avatar className="h-10 w-10">
+                  {resource.uploadedBy.profileImageUrl && <AvatarImage src={resource.uploadedBy.profileImageUrl} />}
+                  <AvatarFallback>{getInitials(uploaderName)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="text-sm font-medium" data-testid="text-uploader">{uploaderName}</p>
+                  {resource.uploadedBy.username && (
+                    <Link
+                      href={`/browse?uploader=${encodeURIComponent(resource.uploadedBy.username)}`}
+                      className="text-xs text-muted-foreground hover:underline"
+                    >
+                      More from this contributor
+                    </Link>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
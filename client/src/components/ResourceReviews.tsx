@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { BadgeCheck, CornerDownRight, MessageSquare, ThumbsDown, ThumbsUp } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import RatingSystem from "@/components/RatingSystem";
+import { formatRelativeTime, getUserDisplayName } from "./ResourceCard";
+import type { Page, RatingSummary, ResourceUploader, ReviewListItem, User } from "@shared/schema";
+
+type ReviewSort = "newest" | "helpful" | "highest" | "lowest";
+
+const reviewSorts: { value: ReviewSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "helpful", label: "Most helpful" },
+  { value: "highest", label: "Highest rated" },
+  { value: "lowest", label: "Lowest rated" },
+];
+
+const REVIEWS_PAGE_SIZE = 10;
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+// Per-star bars for the rating card, e.g. "5 stars ████░░ 12"
+export function RatingBreakdown({ resourceId }: { resourceId: string }) {
+  const { data: summary } = useQuery<RatingSummary>({
+    queryKey: ['/api/resources', resourceId, 'ratings', 'summary'],
+  });
+
+  if (!summary) return null;
+
+  return (
+    <div className="space-y-1" data-testid="rating-breakdown">
+      {summary.distribution.map(({ stars, count }) => {
+        const percent = summary.ratingCount > 0 ? Math.round((count / summary.ratingCount) * 100) : 0;
+        return (
+          <div key={stars} className="flex items-center gap-2 text-xs" data-testid={`rating-bar-${stars}`}>
+            <span className="w-12 text-muted-foreground">{stars} star{stars === 1 ? '' : 's'}</span>
+            <Progress value={percent} className="h-2 flex-1" />
+            <span className="w-8 text-right text-muted-foreground">{count}</span>
+          </div>
+        );
+      })}
+      {summary.verifiedCount > 0 && (
+        <p className="pt-1 text-xs text-muted-foreground" data-testid="text-verified-count">
+          {summary.verifiedCount} of {summary.ratingCount} from verified downloads
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The uploader's answer under a review; the uploader can write, edit and delete it
+function ReviewReply({ review, uploader, canReply }: {
+  review: ReviewListItem;
+  uploader: ResourceUploader;
+  canReply: boolean;
+}) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const replyMutation = useMutation({
+    mutationFn: async (reply: string | null) => {
+      const url = `/api/resources/${review.resourceId}/ratings/${review.userId}/reply`;
+      if (reply === null) {
+        await apiRequest('DELETE', url);
+      } else {
+        await apiRequest('PUT', url, { reply });
+      }
+    },
+    onSuccess: (_, reply) => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/resources', review.resourceId, 'ratings'] });
+      toast({ title: reply === null ? "Reply deleted" : "Reply posted" });
+    },
+    onError: (error: Error) => {
+      console.error('Review reply error:', error);
+      toast({
+        title: "Could not save your reply",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = () => {
+    setDraft(review.reply ?? "");
+    setIsEditing(true);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="mt-3 ml-6 space-y-2">
+        <Textarea
+          value={draft}
+          maxLength={2000}
+          rows={3}
+          placeholder="Respond to this review..."
+          onChange={(e) => setDraft(e.target.value)}
+          data-testid={`textarea-reply-${review.userId}`}
+        />
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => replyMutation.mutate(draft.trim())}
+            disabled={!draft.trim() || replyMutation.isPending}
+            data-testid={`button-save-reply-${review.userId}`}
+          >
+            {review.reply ? 'Update reply' : 'Post reply'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!review.reply) {
+    return canReply ? (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mt-1 h-7 px-2 text-xs"
+        onClick={startEditing}
+        data-testid={`button-reply-${review.userId}`}
+      >
+        <CornerDownRight className="h-3 w-3 mr-1" />
+        Reply
+      </Button>
+    ) : null;
+  }
+
+  return (
+    <div className="mt-3 ml-6 rounded-md border-l-2 bg-muted/50 p-3" data-testid={`reply-${review.userId}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">
+          Response from {getUserDisplayName(uploader, uploader.id)} (uploader)
+        </span>
+        {review.repliedAt && (
+          <span className="text-xs text-muted-foreground">{formatRelativeTime(review.repliedAt)}</span>
+        )}
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground whitespace-pre-line">{review.reply}</p>
+      {canReply && (
+        <div className="mt-1 flex space-x-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={startEditing} data-testid={`button-edit-reply-${review.userId}`}>
+            Edit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => replyMutation.mutate(null)}
+            disabled={replyMutation.isPending}
+            data-testid={`button-delete-reply-${review.userId}`}
+          >
+            Delete
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReviewItem({ review, isOwnReview, uploader, isUploader }: {
+  review: ReviewListItem;
+  isOwnReview: boolean;
+  uploader: ResourceUploader;
+  isUploader: boolean; // Viewer uploaded the resource, so may reply
+}) {
+  const { toast } = useToast();
+  const reviewerName = getUserDisplayName(review.user, review.userId);
+
+  // Voting the same way twice takes the vote back
+  const voteMutation = useMutation({
+    mutationFn: async (helpful: boolean) => {
+      const url = `/api/resources/${review.resourceId}/ratings/${review.userId}/vote`;
+      if (review.viewerVote === helpful) {
+        await apiRequest('DELETE', url);
+      } else {
+        await apiRequest('PUT', url, { helpful });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/resources', review.resourceId, 'ratings'] });
+    },
+    onError: (error: Error) => {
+      console.error('Review vote error:', error);
+      toast({
+        title: "Could not record your vote",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div data-testid={`review-${review.userId}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Avatar className="h-6 w-6">
+            {review.user.profileImageUrl && <AvatarImage src={review.user.profileImageUrl} />}
+            <AvatarFallback className="text-xs">{getInitials(reviewerName)}</AvatarFallback>
+          </Avatar>
+          <span className="text-sm font-medium">{reviewerName}</span>
+          {review.verified && (
+            <Badge variant="secondary" className="text-xs" data-testid={`badge-verified-${review.userId}`}>
+              <BadgeCheck className="h-3 w-3 mr-1" />
+              Verified download
+            </Badge>
+          )}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {formatRelativeTime(review.createdAt || new Date())}
+        </span>
+      </div>
+      <RatingSystem rating={review.rating} readonly size="sm" />
+      {review.review && (
+        <p className="mt-2 text-sm text-muted-foreground whitespace-pre-line">{review.review}</p>
+      )}
+      <div className="mt-2 flex items-center space-x-2 text-xs text-muted-foreground">
+        {isOwnReview ? (
+          <span data-testid={`helpful-count-${review.userId}`}>
+            {review.helpfulCount} found this helpful
+          </span>
+        ) : (
+          <>
+            <span>Helpful?</span>
+            <Button
+              variant={review.viewerVote === true ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => voteMutation.mutate(true)}
+              disabled={voteMutation.isPending}
+              data-testid={`button-helpful-${review.userId}`}
+            >
+              <ThumbsUp className="h-3 w-3 mr-1" />
+              {review.helpfulCount}
+            </Button>
+            <Button
+              variant={review.viewerVote === false ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => voteMutation.mutate(false)}
+              disabled={voteMutation.isPending}
+              data-testid={`button-not-helpful-${review.userId}`}
+            >
+              <ThumbsDown className="h-3 w-3 mr-1" />
+              {review.notHelpfulCount}
+            </Button>
+          </>
+        )}
+      </div>
+      <ReviewReply review={review} uploader={uploader} canReply={isUploader} />
+    </div>
+  );
+}
+
+export default function ResourceReviews({ resourceId, uploader }: {
+  resourceId: string;
+  uploader: ResourceUploader;
+}) {
+  const [sortBy, setSortBy] = useState<ReviewSort>("newest");
+  const { data: user } = useQuery<User>({ queryKey: ['/api/auth/user'] });
+
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ['/api/resources', resourceId, 'ratings', sortBy],
+    queryFn: async ({ pageParam }): Promise<Page<ReviewListItem>> => {
+      const params = new URLSearchParams({ sortBy, limit: String(REVIEWS_PAGE_SIZE) });
+      if (pageParam) {
+        params.append('cursor', pageParam);
+      }
+
+      const res = await fetch(`/api/resources/${resourceId}/ratings?${params.toString()}`, {
+        credentials: 'include'
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to fetch reviews: ${res.status} ${res.statusText}`);
+      }
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const reviews = data?.pages.flatMap(page => page.items) ?? [];
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Reviews</CardTitle>
+            <CardDescription>
+              {totalCount} review{totalCount === 1 ? '' : 's'}
+            </CardDescription>
+          </div>
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as ReviewSort)}>
+            <SelectTrigger className="w-40" data-testid="select-review-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {reviewSorts.map((sort) => (
+                <SelectItem key={sort.value} value={sort.value}>{sort.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <div key={index} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : reviews.length > 0 ? (
+          <div className="space-y-4">
+            {reviews.map((review, index) => (
+              <div key={review.userId}>
+                {index > 0 && <Separator className="mb-4" />}
+                <ReviewItem
+                  review={review}
+                  isOwnReview={review.userId === user?.id}
+                  uploader={uploader}
+                  isUploader={uploader.id === user?.id}
+                />
+              </div>
+            ))}
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-more-reviews"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Show more reviews'}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-6">
+            <MessageSquare className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">No reviews yet.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
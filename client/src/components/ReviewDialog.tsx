@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import RatingSystem from "@/components/RatingSystem";
+import type { Rating } from "@shared/schema";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resourceId: string;
+  resourceTitle: string;
+  initialRating: number; // Star the user clicked to open the dialog
+  hasRated: boolean; // Whether the caller already has a saved rating
+  onSubmit: (rating: number, review: string) => void;
+  onDelete: () => void;
+}
+
+export default function ReviewDialog({
+  open,
+  onOpenChange,
+  resourceId,
+  resourceTitle,
+  initialRating,
+  hasRated,
+  onSubmit,
+  onDelete,
+}: ReviewDialogProps) {
+  const [rating, setRating] = useState(initialRating);
+  const [review, setReview] = useState("");
+
+  // Load the caller's existing review text so it can be edited
+  const { data: existing } = useQuery<Rating | null>({
+    queryKey: ['/api/resources', resourceId, 'ratings', 'me'],
+    enabled: open && hasRated,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setRating(initialRating);
+    }
+  }, [open, initialRating]);
+
+  useEffect(() => {
+    if (open) {
+      setReview(hasRated ? existing?.review ?? "" : "");
+    }
+  }, [open, hasRated, existing]);
+
+  const handleSubmit = () => {
+    onSubmit(rating, review);
+    onOpenChange(false);
+  };
+
+  const handleDelete = () => {
+    onDelete();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{hasRated ? 'Edit your review' : 'Rate this resource'}</DialogTitle>
+          <DialogDescription className="line-clamp-1">{resourceTitle}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Your rating</Label>
+            <RatingSystem rating={rating} onRating={setRating} size="lg" data-testid="review-dialog-rating" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-text">Review (optional)</Label>
+            <Textarea
+              id="review-text"
+              placeholder="What was helpful? Anything missing?"
+              value={review}
+              maxLength={5000}
+              rows={5}
+              onChange={(e) => setReview(e.target.value)}
+              data-testid="textarea-review"
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          {hasRated ? (
+            <Button variant="outline" onClick={handleDelete} data-testid="button-delete-rating">
+              Delete rating
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSubmit} disabled={rating < 1} data-testid="button-submit-review">
+            {hasRated ? 'Update review' : 'Submit review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
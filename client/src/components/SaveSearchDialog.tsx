@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BookmarkPlus } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SaveSearchDialogProps {
+  query: string; // Browse query string to save, as produced by filtersToQueryString
+}
+
+export default function SaveSearchDialog({ query }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/users/me/saved-searches', { name: name.trim(), query });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/saved-searches'] });
+      toast({
+        title: "Search saved",
+        description: `"${name.trim()}" has been added to your saved searches.`,
+      });
+      setOpen(false);
+      setName("");
+    },
+    onError: (error: Error) => {
+      console.error('Save search error:', error);
+      toast({
+        title: "Could not save search",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-save-search">
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          Save Search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save Search</DialogTitle>
+          <DialogDescription>
+            Keep these filters in your sidebar. Saving under an existing name replaces it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="saved-search-name">Name</Label>
+          <Input
+            id="saved-search-name"
+            placeholder="e.g. Physics past papers"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleSave()}
+            data-testid="input-saved-search-name"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-confirm-save-search"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,6 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Search, Filter, X, Star } from "lucide-react";
+import type { FacetCount, ResourceFacets } from "@shared/schema";
+import { FILE_TYPE_FAMILIES } from "@shared/fileTypes";
 
 const subjects = [
   "All Subjects", "Mathematics", "Computer Science", "Physics", "Chemistry", 
@@ -17,11 +19,12 @@ const semesters = [
   "All Semesters", "Fall 2024", "Spring 2024", "Fall 2023", "Spring 2023", "Fall 2022", "Spring 2022"
 ];
 
-const fileTypes = [
-  { id: "pdf", label: "PDF" },
-  { id: "doc", label: "Word Documents" },
-  { id: "img", label: "Images" },
-  { id: "ppt", label: "Presentations" },
+const fileSizes = [
+  { value: "any", label: "Any Size" },
+  { value: "1", label: "1 MB" },
+  { value: "2", label: "2 MB" },
+  { value: "5", label: "5 MB" },
+  { value: "10", label: "10 MB" },
 ];
 
 const ratings = [
@@ -31,38 +34,75 @@ const ratings = [
   { value: "2", label: "2+ Stars" },
 ];
 
+export interface SearchFilterValues {
+  query: string;
+  subject: string;
+  semester: string;
+  fileTypes: string[];
+  tags: string[];
+  tagMode: "any" | "all";
+  uploader: string;
+  dateFrom: string; // yyyy-mm-dd
+  dateTo: string; // yyyy-mm-dd
+  minSizeMb: string;
+  maxSizeMb: string;
+  minRating: string;
+  sortBy: "relevance" | "newest" | "oldest" | "rating" | "downloads";
+}
+
+export const defaultSearchFilters: SearchFilterValues = {
+  query: "",
+  subject: "All Subjects",
+  semester: "All Semesters",
+  fileTypes: [],
+  tags: [],
+  tagMode: "any",
+  uploader: "",
+  dateFrom: "",
+  dateTo: "",
+  minSizeMb: "any",
+  maxSizeMb: "any",
+  minRating: "all",
+  sortBy: "relevance",
+};
+
 interface SearchFiltersProps {
-  onSearch?: (filters: any) => void;
+  onSearch?: (filters: SearchFilterValues) => void;
+  value?: SearchFilterValues; // Applied filters, e.g. restored from the URL or a saved search
+  facets?: ResourceFacets; // Result counts for each option under the applied filters
+}
+
+// Count for an option, or undefined while facets are not loaded
+const getFacetCount = (facet: FacetCount[] | undefined, value: string) => {
+  if (!facet) return undefined;
+  return facet.find(f => f.value === value)?.count ?? 0;
+};
+
+function FacetCountLabel({ count }: { count?: number }) {
+  if (count === undefined) return null;
+  return <span className="ml-2 text-xs text-muted-foreground">({count})</span>;
 }
 
-export default function SearchFilters({ onSearch }: SearchFiltersProps) {
-  const [filters, setFilters] = useState({
-    query: "",
-    subject: "All Subjects",
-    semester: "All Semesters",
-    fileTypes: [] as string[],
-    minRating: "all",
-    sortBy: "relevance",
-  });
+export default function SearchFilters({ onSearch, value, facets }: SearchFiltersProps) {
+  const [filters, setFilters] = useState<SearchFilterValues>(value ?? defaultSearchFilters);
   
   const [showAdvanced, setShowAdvanced] = useState(false);
 
+  // Keep the form in sync when the parent changes the applied filters
+  useEffect(() => {
+    if (value !== undefined) {
+      setFilters(value);
+    }
+  }, [value]);
+
   const handleSearch = () => {
     console.log("Search with filters:", filters);
     onSearch?.(filters);
   };
 
   const clearFilters = () => {
-    const clearedFilters = {
-      query: "",
-      subject: "All Subjects",
-      semester: "All Semesters",
-      fileTypes: [],
-      minRating: "all",
-      sortBy: "relevance",
-    };
-    setFilters(clearedFilters);
-    onSearch?.(clearedFilters);
+    setFilters(defaultSearchFilters);
+    onSearch?.(defaultSearchFilters);
   };
 
   const toggleFileType = (fileType: string) => {
@@ -74,13 +114,32 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
     });
   };
 
+  const toggleTag = (tag: string) => {
+    setFilters({
+      ...filters,
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter(t => t !== tag)
+        : [...filters.tags, tag]
+    });
+  };
+
   const activeFiltersCount = [
     filters.subject !== "All Subjects" ? 1 : 0,
     filters.semester !== "All Semesters" ? 1 : 0,
     filters.fileTypes.length,
+    filters.tags.length,
+    filters.uploader.trim() ? 1 : 0,
+    filters.dateFrom || filters.dateTo ? 1 : 0,
+    filters.minSizeMb !== "any" || filters.maxSizeMb !== "any" ? 1 : 0,
     filters.minRating !== "all" ? 1 : 0,
   ].reduce((a, b) => a + b, 0);
 
+  // Selected tags stay visible even when the current facets no longer list them
+  const tagOptions = Array.from(new Set([
+    ...filters.tags,
+    ...(facets?.tags.map(tag => tag.value) ?? []),
+  ])).slice(0, 20);
+
   return (
     <div className="space-y-4">
       {/* Search Bar */}
@@ -146,11 +205,19 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {subjects.map((subject) => (
-                      <SelectItem key={subject} value={subject}>
-                        {subject}
-                      </SelectItem>
-                    ))}
+                    {subjects.map((subject) => {
+                      const count = subject === "All Subjects" ? undefined : getFacetCount(facets?.subjects, subject);
+                      return (
+                        <SelectItem 
+                          key={subject} 
+                          value={subject}
+                          disabled={count === 0 && filters.subject !== subject}
+                        >
+                          {subject}
+                          <FacetCountLabel count={count} />
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
               </div>
@@ -165,11 +232,19 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {semesters.map((semester) => (
-                      <SelectItem key={semester} value={semester}>
-                        {semester}
-                      </SelectItem>
-                    ))}
+                    {semesters.map((semester) => {
+                      const count = semester === "All Semesters" ? undefined : getFacetCount(facets?.semesters, semester);
+                      return (
+                        <SelectItem 
+                          key={semester} 
+                          value={semester}
+                          disabled={count === 0 && filters.semester !== semester}
+                        >
+                          {semester}
+                          <FacetCountLabel count={count} />
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
               </div>
@@ -178,19 +253,25 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
             <div className="space-y-2">
               <Label>File Types</Label>
               <div className="flex flex-wrap gap-3">
-                {fileTypes.map((fileType) => (
-                  <div key={fileType.id} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={fileType.id}
-                      checked={filters.fileTypes.includes(fileType.id)}
-                      onCheckedChange={() => toggleFileType(fileType.id)}
-                      data-testid={`checkbox-${fileType.id}`}
-                    />
-                    <Label htmlFor={fileType.id} className="text-sm cursor-pointer">
-                      {fileType.label}
-                    </Label>
-                  </div>
-                ))}
+                {FILE_TYPE_FAMILIES.map((fileType) => {
+                  const count = getFacetCount(facets?.fileTypes, fileType.id);
+                  const checked = filters.fileTypes.includes(fileType.id);
+                  return (
+                    <div key={fileType.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={fileType.id}
+                        checked={checked}
+                        disabled={count === 0 && !checked}
+                        onCheckedChange={() => toggleFileType(fileType.id)}
+                        data-testid={`checkbox-${fileType.id}`}
+                      />
+                      <Label htmlFor={fileType.id} className="text-sm cursor-pointer">
+                        {fileType.label}
+                        <FacetCountLabel count={count} />
+                      </Label>
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
@@ -205,16 +286,24 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {ratings.map((rating) => (
-                      <SelectItem key={rating.value} value={rating.value}>
-                        <div className="flex items-center space-x-1">
-                          <span>{rating.label}</span>
-                          {rating.value !== "all" && (
-                            <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
-                          )}
-                        </div>
-                      </SelectItem>
-                    ))}
+                    {ratings.map((rating) => {
+                      const count = rating.value === "all" ? undefined : getFacetCount(facets?.ratings, rating.value);
+                      return (
+                        <SelectItem 
+                          key={rating.value} 
+                          value={rating.value}
+                          disabled={count === 0 && filters.minRating !== rating.value}
+                        >
+                          <div className="flex items-center space-x-1">
+                            <span>{rating.label}</span>
+                            {rating.value !== "all" && (
+                              <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
+                            )}
+                            <FacetCountLabel count={count} />
+                          </div>
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
               </div>
@@ -223,7 +312,7 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
                 <Label>Sort By</Label>
                 <Select 
                   value={filters.sortBy} 
-                  onValueChange={(value) => setFilters({ ...filters, sortBy: value })}
+                  onValueChange={(value) => setFilters({ ...filters, sortBy: value as SearchFilterValues["sortBy"] })}
                 >
                   <SelectTrigger data-testid="select-sort-by">
                     <SelectValue />
@@ -239,6 +328,118 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
               </div>
             </div>
 
+            {tagOptions.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Tags</Label>
+                  <Select 
+                    value={filters.tagMode} 
+                    onValueChange={(value) => setFilters({ ...filters, tagMode: value as SearchFilterValues["tagMode"] })}
+                  >
+                    <SelectTrigger className="h-8 w-40" data-testid="select-tag-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Match any tag</SelectItem>
+                      <SelectItem value="all">Match all tags</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {tagOptions.map((tag) => {
+                    const count = getFacetCount(facets?.tags, tag);
+                    const selected = filters.tags.includes(tag);
+                    return (
+                      <Button
+                        key={tag}
+                        type="button"
+                        size="sm"
+                        variant={selected ? "default" : "outline"}
+                        disabled={count === 0 && !selected}
+                        onClick={() => toggleTag(tag)}
+                        data-testid={`button-tag-${tag.toLowerCase().replace(' ', '-')}`}
+                      >
+                        {tag}
+                        <FacetCountLabel count={count} />
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="filter-uploader">Uploader</Label>
+                <Input
+                  id="filter-uploader"
+                  placeholder="Username or name"
+                  value={filters.uploader}
+                  onChange={(e) => setFilters({ ...filters, uploader: e.target.value })}
+                  data-testid="input-filter-uploader"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Uploaded Between</Label>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="date"
+                    value={filters.dateFrom}
+                    onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value })}
+                    data-testid="input-filter-date-from"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    value={filters.dateTo}
+                    onChange={(e) => setFilters({ ...filters, dateTo: e.target.value })}
+                    data-testid="input-filter-date-to"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Minimum File Size</Label>
+                <Select 
+                  value={filters.minSizeMb} 
+                  onValueChange={(value) => setFilters({ ...filters, minSizeMb: value })}
+                >
+                  <SelectTrigger data-testid="select-min-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fileSizes.map((size) => (
+                      <SelectItem key={size.value} value={size.value}>
+                        {size.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Maximum File Size</Label>
+                <Select 
+                  value={filters.maxSizeMb} 
+                  onValueChange={(value) => setFilters({ ...filters, maxSizeMb: value })}
+                >
+                  <SelectTrigger data-testid="select-max-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fileSizes.map((size) => (
+                      <SelectItem key={size.value} value={size.value}>
+                        {size.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button variant="outline" onClick={clearFilters} data-testid="button-reset-filters">
                 Reset
@@ -282,7 +483,7 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
           )}
           {filters.fileTypes.map((fileType) => (
             <Badge key={fileType} variant="secondary" className="flex items-center gap-1" data-testid={`active-filter-filetype-${fileType}`}>
-              {fileTypes.find(f => f.id === fileType)?.label}
+              {FILE_TYPE_FAMILIES.find(f => f.id === fileType)?.label}
               <Button
                 variant="ghost"
                 size="icon"
@@ -293,6 +494,58 @@ export default function SearchFilters({ onSearch }: SearchFiltersProps) {
               </Button>
             </Badge>
           ))}
+          {filters.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1" data-testid={`active-filter-tag-${tag.toLowerCase().replace(' ', '-')}`}>
+              Tag: {tag}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-3 w-3 p-0"
+                onClick={() => toggleTag(tag)}
+              >
+                <X className="h-2 w-2" />
+              </Button>
+            </Badge>
+          ))}
+          {filters.uploader.trim() && (
+            <Badge variant="secondary" className="flex items-center gap-1" data-testid="active-filter-uploader">
+              Uploader: {filters.uploader.trim()}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-3 w-3 p-0"
+                onClick={() => setFilters({ ...filters, uploader: "" })}
+              >
+                <X className="h-2 w-2" />
+              </Button>
+            </Badge>
+          )}
+          {(filters.dateFrom || filters.dateTo) && (
+            <Badge variant="secondary" className="flex items-center gap-1" data-testid="active-filter-date">
+              Uploaded: {filters.dateFrom || "…"} – {filters.dateTo || "…"}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-3 w-3 p-0"
+                onClick={() => setFilters({ ...filters, dateFrom: "", dateTo: "" })}
+              >
+                <X className="h-2 w-2" />
+              </Button>
+            </Badge>
+          )}
+          {(filters.minSizeMb !== "any" || filters.maxSizeMb !== "any") && (
+            <Badge variant="secondary" className="flex items-center gap-1" data-testid="active-filter-size">
+              Size: {filters.minSizeMb !== "any" ? `${filters.minSizeMb} MB` : "0 MB"} – {filters.maxSizeMb !== "any" ? `${filters.maxSizeMb} MB` : "any"}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-3 w-3 p-0"
+                onClick={() => setFilters({ ...filters, minSizeMb: "any", maxSizeMb: "any" })}
+              >
+                <X className="h-2 w-2" />
+              </Button>
+            </Badge>
+          )}
           {filters.minRating !== "all" && (
             <Badge variant="secondary" className="flex items-center gap-1" data-testid="active-filter-rating">
               {ratings.find(r => r.value === filters.minRating)?.label}
@@ -21,15 +21,16 @@ interface TrendingResource {
     firstName?: string;
     lastName?: string;
   };
+  recentDownloads: number; // Downloads within the selected timeframe
   trendingScore: number;
-  growthRate: number;
+  growthRate: number | null; // Percent change against the previous timeframe
 }
 
 interface TrendingSubject {
   subject: string;
   resourceCount: number;
   totalDownloads: number;
-  growthRate: number;
+  growthRate: number | null;
 }
 
 export default function Trending() {
@@ -78,6 +79,19 @@ export default function Trending() {
     return "💡 New";
   };
 
+  // Nothing is shown without a previous window to compare against
+  const renderGrowthRate = (growthRate: number | null, testId: string) => {
+    if (growthRate === null) return null;
+    return (
+      <span
+        className={`font-medium ${growthRate >= 0 ? 'text-green-600' : 'text-red-600'}`}
+        data-testid={testId}
+      >
+        {growthRate >= 0 ? '+' : ''}{growthRate}%
+      </span>
+    );
+  };
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between mb-6">
@@ -186,17 +200,15 @@ export default function Trending() {
                         </div>
                         
                         <div className="flex items-center gap-4 text-muted-foreground">
-                          <span className="flex items-center gap-1">
+                          <span className="flex items-center gap-1" title={timeframe === 'all' ? 'Downloads' : `Downloads this ${timeframe}`}>
                             <Download className="h-3 w-3" />
-                            {resource.downloadCount}
+                            {resource.recentDownloads}
                           </span>
                           <span className="flex items-center gap-1">
                             <Star className="h-3 w-3 text-yellow-500" />
                             {resource.averageRating.toFixed(1)}
                           </span>
-                          <span className="text-green-600 font-medium">
-                            +{resource.growthRate}%
-                          </span>
+                          {renderGrowthRate(resource.growthRate, `growth-rate-${resource.id}`)}
                         </div>
                       </div>
                     </div>
@@ -253,9 +265,7 @@ export default function Trending() {
                       </div>
                       <div className="flex items-center gap-2 text-xs text-muted-foreground">
                         <span>{subject.resourceCount} resources</span>
-                        <span className="text-green-600 font-medium">
-                          +{subject.growthRate}%
-                        </span>
+                        {renderGrowthRate(subject.growthRate, `growth-rate-${subject.subject.toLowerCase().replace(' ', '-')}`)}
                       </div>
                     </div>
                   ))}
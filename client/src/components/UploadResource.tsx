@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -6,11 +7,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Upload, X, FileText, File, LogIn } from "lucide-react";
+import { Upload, X, LogIn, Copy } from "lucide-react";
+import { formatRelativeTime, getFileIcon, getUserDisplayName } from "./ResourceCard";
+import type { CreatedResource, DuplicateResource, NearDuplicate } from "@shared/schema";
+import { ACCEPTED_FILE_EXTENSIONS } from "@shared/fileTypes";
 
 const subjects = [
   "Mathematics", "Computer Science", "Physics", "Chemistry", "Biology", 
@@ -21,6 +26,13 @@ const semesters = [
   "Fall 2024", "Spring 2024", "Fall 2023", "Spring 2023", "Fall 2022", "Spring 2022"
 ];
 
+// The server found the exact same file already shared (409)
+class DuplicateUploadError extends Error {
+  constructor(public duplicates: DuplicateResource[]) {
+    super("This file has already been shared");
+  }
+}
+
 export default function UploadResource() {
   const [formData, setFormData] = useState({
     title: "",
@@ -31,6 +43,10 @@ export default function UploadResource() {
     currentTag: ""
   });
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Existing copies of the selected file, shown before publishing anyway
+  const [duplicates, setDuplicates] = useState<DuplicateResource[]>([]);
+  // Similar documents found for the resource that was just published
+  const [published, setPublished] = useState<CreatedResource | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const { toast } = useToast();
   const { user, isAuthenticated } = useAuth();
@@ -70,10 +86,30 @@ export default function UploadResource() {
         });
         return;
       }
-      setSelectedFile(file);
+      selectFile(file);
+    }
+  };
+
+  const selectFile = (file: File | null) => {
+    setSelectedFile(file);
+    setDuplicates([]);
+    if (file) {
+      setPublished(null);
     }
   };
 
+  const renderDuplicate = (duplicate: DuplicateResource | NearDuplicate) => (
+    <li key={duplicate.id}>
+      <Link href={`/resources/${duplicate.id}`} className="font-medium hover:underline" data-testid={`link-duplicate-${duplicate.id}`}>
+        {duplicate.title}
+      </Link>
+      <span className="text-muted-foreground">
+        {' '}in {duplicate.subject}, shared by {getUserDisplayName(duplicate.uploadedBy, duplicate.uploadedBy.id)} {formatRelativeTime(duplicate.createdAt || new Date())}
+        {'similarity' in duplicate && ` (${Math.round(duplicate.similarity * 100)}% similar)`}
+      </span>
+    </li>
+  );
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -99,7 +135,7 @@ export default function UploadResource() {
         });
         return;
       }
-      setSelectedFile(file);
+      selectFile(file);
     }
   };
 
@@ -122,7 +158,7 @@ export default function UploadResource() {
 
   // Mutation for uploading resource with file
   const uploadMutation = useMutation({
-    mutationFn: async ({ formData, file }: { formData: any, file: File }) => {
+    mutationFn: async ({ formData, file, allowDuplicate = false }: { formData: any, file: File, allowDuplicate?: boolean }) => {
       const uploadFormData = new FormData();
       
       // Add the file
@@ -140,6 +176,9 @@ export default function UploadResource() {
       if (formData.tags.length > 0) {
         uploadFormData.append('tags', JSON.stringify(formData.tags));
       }
+      if (allowDuplicate) {
+        uploadFormData.append('allowDuplicate', 'true');
+      }
       
       const response = await fetch('/api/resources', {
         method: 'POST',
@@ -147,12 +186,17 @@ export default function UploadResource() {
         credentials: 'include', // Include session cookies
       });
       
+      if (response.status === 409) {
+        const { duplicates } = await response.json();
+        throw new DuplicateUploadError(duplicates);
+      }
+      
       if (!response.ok) {
         const error = await response.text();
         throw new Error(error || 'Upload failed');
       }
       
-      return response.json();
+      return response.json() as Promise<CreatedResource>;
     },
     onSuccess: (data) => {
       // Invalidate resources queries to refresh the lists
@@ -166,11 +210,16 @@ export default function UploadResource() {
       
       // Reset form
       setFormData({ title: "", description: "", subject: "", semester: "", tags: [], currentTag: "" });
-      setSelectedFile(null);
+      selectFile(null);
+      setPublished(data.nearDuplicates.length > 0 ? data : null);
       
       console.log("Resource created:", data);
     },
     onError: (error: any) => {
+      if (error instanceof DuplicateUploadError) {
+        setDuplicates(error.duplicates);
+        return;
+      }
       console.error("Upload error:", error);
       toast({
         title: "Upload failed",
@@ -204,19 +253,6 @@ export default function UploadResource() {
     uploadMutation.mutate({ formData, file: selectedFile });
   };
 
-  const getFileIcon = (fileName: string) => {
-    const extension = fileName.split('.').pop()?.toLowerCase();
-    switch (extension) {
-      case 'pdf':
-        return <FileText className="h-8 w-8 text-red-600" />;
-      case 'docx':
-      case 'doc':
-        return <File className="h-8 w-8 text-blue-600" />;
-      default:
-        return <File className="h-8 w-8 text-muted-foreground" />;
-    }
-  };
-
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       <div>
@@ -224,12 +260,27 @@ export default function UploadResource() {
         <p className="text-muted-foreground">Share your study materials with fellow students</p>
       </div>
 
+      {published && (
+        <Alert data-testid="alert-near-duplicates">
+          <Copy className="h-4 w-4" />
+          <AlertTitle>
+            <Link href={`/resources/${published.id}`} className="hover:underline">{published.title}</Link> was published
+          </AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>It looks a lot like these resources. If it is the same document, consider removing one of them:</p>
+            <ul className="space-y-1">
+              {published.nearDuplicates.map(renderDuplicate)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* File Upload */}
         <Card>
           <CardHeader>
             <CardTitle>Select File</CardTitle>
-            <CardDescription>Upload PDF, Word documents, or images (max 10MB)</CardDescription>
+            <CardDescription>Upload documents, slides, spreadsheets, images, notes, code or ZIP archives (max 10MB)</CardDescription>
           </CardHeader>
           <CardContent>
             {!selectedFile ? (
@@ -250,7 +301,7 @@ export default function UploadResource() {
                   type="file"
                   id="file-upload"
                   className="hidden"
-                  accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                  accept={ACCEPTED_FILE_EXTENSIONS}
                   onChange={handleFileChange}
                   data-testid="input-file"
                 />
@@ -265,7 +316,7 @@ export default function UploadResource() {
               </div>
             ) : (
               <div className="flex items-center space-x-4 p-4 bg-muted rounded-lg">
-                {getFileIcon(selectedFile.name)}
+                {getFileIcon(selectedFile.name.split('.').pop() ?? '', "h-8 w-8")}
                 <div className="flex-1">
                   <p className="font-medium" data-testid="selected-filename">{selectedFile.name}</p>
                   <p className="text-sm text-muted-foreground">
@@ -276,7 +327,7 @@ export default function UploadResource() {
                   type="button"
                   variant="ghost"
                   size="icon"
-                  onClick={() => setSelectedFile(null)}
+                  onClick={() => selectFile(null)}
                   data-testid="button-remove-file"
                 >
                   <X className="h-4 w-4" />
@@ -400,6 +451,29 @@ export default function UploadResource() {
           </CardContent>
         </Card>
 
+        {duplicates.length > 0 && selectedFile && (
+          <Alert data-testid="alert-duplicate-upload">
+            <Copy className="h-4 w-4" />
+            <AlertTitle>This file has already been shared</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>Check whether the existing copy already covers it before publishing another one:</p>
+              <ul className="space-y-1">
+                {duplicates.map(renderDuplicate)}
+              </ul>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={uploadMutation.isPending}
+                onClick={() => uploadMutation.mutate({ formData, file: selectedFile, allowDuplicate: true })}
+                data-testid="button-publish-anyway"
+              >
+                Publish anyway
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="flex gap-4">
           <Button 
             type="submit" 
@@ -416,7 +490,7 @@ export default function UploadResource() {
             disabled={uploadMutation.isPending}
             onClick={() => {
               setFormData({ title: "", description: "", subject: "", semester: "", tags: [], currentTag: "" });
-              setSelectedFile(null);
+              selectFile(null);
             }}
             data-testid="button-cancel"
           >
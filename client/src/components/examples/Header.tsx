@@ -15,7 +15,7 @@ export default function HeaderExample() {
         <Header 
           theme={theme}
           onThemeToggle={toggleTheme}
-          onSearch={(query) => console.log('Search:', query)}
+          onNavigate={(path) => console.log('Navigate:', path)}
           userName="John Doe"
           userInitials="JD"
           notificationCount={5}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+
+// Calls loadMore whenever the returned sentinel element scrolls into view.
+// Attach the ref to an element rendered after the last item of the list.
+export function useInfiniteScroll({
+  hasMore,
+  isLoading,
+  loadMore,
+}: {
+  hasMore: boolean;
+  isLoading: boolean;
+  loadMore: () => void;
+}) {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      // Start loading a little before the user reaches the end of the list
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, loadMore]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,72 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// The full UTF-8 name (filename*=UTF-8''...) when the header has one, else
+// the plain filename, which the server reduces to ASCII
+function fileNameFromDisposition(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  const extended = header.match(/filename\*\s*=\s*UTF-8''([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Malformed encoding; fall back to the plain name
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*"?([^";]+)"?/i);
+  return plain?.[1];
+}
+
+// Downloads a resource's file through the counting /download endpoint and
+// saves it under the filename the server sends back
+export function useResourceDownload(resource: { id: string; fileName: string }) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/resources/${resource.id}/download`, {
+        method: 'GET',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+      }
+
+      const filename = fileNameFromDisposition(response.headers.get('Content-Disposition')) ?? resource.fileName;
+
+      // Create blob and download
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      return { filename };
+    },
+    onSuccess: (data) => {
+      // Invalidate resources queries to update download count
+      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/favorites'] });
+      toast({
+        title: "Download successful",
+        description: `${data.filename} has been downloaded.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Download error:', error);
+      toast({
+        title: "Download failed",
+        description: error.message || "Could not download the resource. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
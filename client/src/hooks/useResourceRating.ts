@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface RatingStats {
+  averageRating: number;
+  ratingCount: number;
+  userRating: number | null; // The caller's own stars, if they rated
+}
+
+// Applies the caller's rating change (null removes it) to the stats, so the UI
+// can update before the server confirms. Every rating counts once here; the
+// server weights verified reviews, so the average it returns may differ
+// slightly and replaces this one when the stats refresh
+export function applyRatingChange(stats: RatingStats, newRating: number | null): RatingStats {
+  const total = stats.averageRating * stats.ratingCount - (stats.userRating ?? 0) + (newRating ?? 0);
+  const ratingCount = stats.ratingCount - (stats.userRating !== null ? 1 : 0) + (newRating !== null ? 1 : 0);
+
+  return {
+    averageRating: ratingCount > 0 ? total / ratingCount : 0,
+    ratingCount,
+    userRating: newRating,
+  };
+}
+
+// Saves or deletes the caller's rating for a resource. Returns the rating
+// stats to display, which include the optimistic change while a request is
+// in flight and fall back to the given server stats once they refresh.
+export function useResourceRating(resourceId: string, stats: RatingStats) {
+  const { toast } = useToast();
+  const [optimistic, setOptimistic] = useState<RatingStats | null>(null);
+
+  // Fresh server data replaces the optimistic guess
+  useEffect(() => {
+    setOptimistic(null);
+  }, [stats.averageRating, stats.ratingCount, stats.userRating]);
+
+  const current = optimistic ?? stats;
+
+  const mutation = useMutation({
+    mutationFn: async ({ rating, review }: { rating: number | null; review?: string }) => {
+      if (rating === null) {
+        await apiRequest('DELETE', `/api/resources/${resourceId}/ratings`);
+      } else {
+        await apiRequest('POST', `/api/resources/${resourceId}/ratings`, { rating, review });
+      }
+    },
+    onMutate: ({ rating }) => {
+      const previous = optimistic;
+      setOptimistic(applyRatingChange(current, rating));
+      return { previous };
+    },
+    onSuccess: (_, { rating }) => {
+      toast({
+        title: rating === null ? "Rating removed" : "Review saved",
+        description: rating === null ? undefined : `You rated this resource ${rating} star${rating === 1 ? '' : 's'}.`,
+      });
+    },
+    onError: (error: Error, _, context) => {
+      console.error('Rating error:', error);
+      setOptimistic(context?.previous ?? null);
+      toast({
+        title: "Could not save your rating",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/resources'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/favorites'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trending/resources'] });
+    },
+  });
+
+  return {
+    ...current,
+    saveRating: (rating: number, review?: string) => mutation.mutate({ rating, review }),
+    deleteRating: () => mutation.mutate({ rating: null }),
+    isPending: mutation.isPending,
+  };
+}
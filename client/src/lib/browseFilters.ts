@@ -0,0 +1,56 @@
+import { defaultSearchFilters, type SearchFilterValues } from "@/components/SearchFilters";
+
+const sortOptions: SearchFilterValues["sortBy"][] = ["relevance", "newest", "oldest", "rating", "downloads"];
+
+// Serializes browse filters into the /browse query string. Values left at
+// their defaults are omitted so shared links stay short.
+export function filtersToQueryString(filters: SearchFilterValues): string {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  if (filters.subject !== defaultSearchFilters.subject) params.set("subject", filters.subject);
+  if (filters.semester !== defaultSearchFilters.semester) params.set("semester", filters.semester);
+  filters.fileTypes.forEach(fileType => params.append("type", fileType));
+  filters.tags.forEach(tag => params.append("tag", tag));
+  if (filters.tags.length > 1 && filters.tagMode !== defaultSearchFilters.tagMode) {
+    params.set("tagMode", filters.tagMode);
+  }
+  if (filters.uploader.trim()) params.set("uploader", filters.uploader.trim());
+  if (filters.dateFrom) params.set("from", filters.dateFrom);
+  if (filters.dateTo) params.set("to", filters.dateTo);
+  if (filters.minSizeMb !== defaultSearchFilters.minSizeMb) params.set("minSize", filters.minSizeMb);
+  if (filters.maxSizeMb !== defaultSearchFilters.maxSizeMb) params.set("maxSize", filters.maxSizeMb);
+  if (filters.minRating !== defaultSearchFilters.minRating) params.set("rating", filters.minRating);
+  if (filters.sortBy !== defaultSearchFilters.sortBy) params.set("sort", filters.sortBy);
+
+  return params.toString();
+}
+
+// Reads browse filters back from a query string, falling back to the
+// defaults for anything missing or malformed
+export function filtersFromQueryString(queryString: string): SearchFilterValues {
+  const params = new URLSearchParams(queryString);
+  const sortBy = params.get("sort") as SearchFilterValues["sortBy"] | null;
+  const date = (value: string | null) => value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : "";
+
+  return {
+    query: params.get("q") ?? defaultSearchFilters.query,
+    subject: params.get("subject") || defaultSearchFilters.subject,
+    semester: params.get("semester") || defaultSearchFilters.semester,
+    fileTypes: params.getAll("type"),
+    tags: params.getAll("tag"),
+    tagMode: params.get("tagMode") === "all" ? "all" : "any",
+    uploader: params.get("uploader") ?? defaultSearchFilters.uploader,
+    dateFrom: date(params.get("from")),
+    dateTo: date(params.get("to")),
+    minSizeMb: params.get("minSize") || defaultSearchFilters.minSizeMb,
+    maxSizeMb: params.get("maxSize") || defaultSearchFilters.maxSizeMb,
+    minRating: params.get("rating") || defaultSearchFilters.minRating,
+    sortBy: sortBy && sortOptions.includes(sortBy) ? sortBy : defaultSearchFilters.sortBy,
+  };
+}
+
+export function browsePath(filters: SearchFilterValues): string {
+  const queryString = filtersToQueryString(filters);
+  return queryString ? `/browse?${queryString}` : "/browse";
+}
@@ -0,0 +1,77 @@
+import path from "path";
+
+// Tunable settings, read once from the environment at startup
+
+function stringFromEnv(name: string, fallback: string): string {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : value;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const number = parseFloat(value);
+  if (isNaN(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  }
+  return number;
+}
+
+export const config = {
+  // How much a review from someone who downloaded the file counts towards a
+  // resource's average rating, relative to an unverified review (1 = equal).
+  // After changing it, run `npm run ratings:refresh`
+  verifiedReviewWeight: numberFromEnv('VERIFIED_REVIEW_WEIGHT', 1),
+
+  // Prior for the Bayesian weighted rating: every resource starts as if it
+  // already had ratingPriorWeight ratings of ratingPriorMean stars, so a
+  // single 5-star vote cannot outrank a 4.8 from hundreds of students.
+  // After changing these, run `npm run ratings:refresh`
+  ratingPriorMean: numberFromEnv('RATING_PRIOR_MEAN', 3),
+  ratingPriorWeight: numberFromEnv('RATING_PRIOR_WEIGHT', 5),
+
+  // Repeat downloads of a resource by the same user within this many hours
+  // are logged but not counted again
+  downloadDedupeWindowHours: numberFromEnv('DOWNLOAD_DEDUPE_WINDOW_HOURS', 24),
+
+  // Trending score, Hacker News style: every download, rating and favorite
+  // adds its weight / (age in days + 1) ^ trendingGravity, so a burst of
+  // recent activity outranks a large but old total. Higher gravity forgets
+  // faster; 0 turns the score into a plain weighted count
+  trendingGravity: numberFromEnv('TRENDING_GRAVITY', 1.5),
+  trendingDownloadWeight: numberFromEnv('TRENDING_DOWNLOAD_WEIGHT', 1),
+  trendingRatingWeight: numberFromEnv('TRENDING_RATING_WEIGHT', 3),
+  trendingFavoriteWeight: numberFromEnv('TRENDING_FAVORITE_WEIGHT', 2),
+
+  // Estimated share of overlapping text (0-1) from which two documents are
+  // reported as near-duplicates
+  nearDuplicateThreshold: numberFromEnv('NEAR_DUPLICATE_THRESHOLD', 0.8),
+
+  // Where uploaded files are kept: "local" writes under localDir, "s3" uses a
+  // bucket on AWS or any S3-compatible server (set endpoint and
+  // forcePathStyle for MinIO). Credentials fall back to the usual AWS_*
+  // variables when the S3_* ones are unset
+  fileStore: {
+    driver: stringFromEnv('FILE_STORE_DRIVER', 'local'),
+    localDir: path.resolve(stringFromEnv('FILE_STORE_DIR', 'uploads')),
+    s3: {
+      bucket: stringFromEnv('S3_BUCKET', ''),
+      region: stringFromEnv('S3_REGION', 'us-east-1'),
+      endpoint: stringFromEnv('S3_ENDPOINT', ''),
+      accessKeyId: stringFromEnv('S3_ACCESS_KEY_ID', ''),
+      secretAccessKey: stringFromEnv('S3_SECRET_ACCESS_KEY', ''),
+      forcePathStyle: stringFromEnv('S3_FORCE_PATH_STYLE', 'false') === 'true',
+    },
+  },
+
+  // Malware scanning of uploads: "none" accepts everything, "clamd" streams
+  // each file to a ClamAV daemon. When the daemon cannot be reached uploads
+  // are refused rather than stored unchecked
+  fileScanner: {
+    driver: stringFromEnv('FILE_SCANNER', 'none'),
+    clamdHost: stringFromEnv('CLAMD_HOST', '127.0.0.1'),
+    clamdPort: numberFromEnv('CLAMD_PORT', 3310),
+    timeoutMs: numberFromEnv('CLAMD_TIMEOUT_MS', 30000),
+  },
+};
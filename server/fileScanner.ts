@@ -0,0 +1,78 @@
+import net from "net";
+import { config } from "./config";
+
+export type ScanResult = { clean: true } | { clean: false; threat: string };
+
+// Every upload is passed to the configured scanner before it is stored.
+// Scanners throw when they cannot give a verdict, and the upload is refused
+export interface FileScanner {
+  scan(data: Buffer, fileName: string): Promise<ScanResult>;
+}
+
+// Accepts everything; the default when no scanner is configured
+export class NoopFileScanner implements FileScanner {
+  async scan(): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+// ClamAV daemon over TCP, using the INSTREAM command
+export class ClamdFileScanner implements FileScanner {
+  private static readonly CHUNK_SIZE = 64 * 1024;
+
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    private readonly timeoutMs: number,
+  ) {}
+
+  scan(data: Buffer): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      const replies: Buffer[] = [];
+
+      socket.setTimeout(this.timeoutMs, () => {
+        socket.destroy(new Error(`clamd did not answer within ${this.timeoutMs}ms`));
+      });
+      socket.on('error', reject);
+      socket.on('data', (chunk) => replies.push(chunk));
+      socket.on('end', () => {
+        // e.g. "stream: OK" or "stream: Eicar-Signature FOUND"
+        const reply = Buffer.concat(replies).toString().replace(/\0/g, '').trim();
+        if (reply.endsWith(' OK')) {
+          resolve({ clean: true });
+        } else if (reply.endsWith(' FOUND')) {
+          resolve({ clean: false, threat: reply.replace(/^stream: /, '').replace(/ FOUND$/, '') });
+        } else {
+          reject(new Error(`Unexpected clamd reply: ${reply}`));
+        }
+      });
+
+      socket.on('connect', () => {
+        // Length-prefixed chunks, ended by a zero-length chunk
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < data.length; offset += ClamdFileScanner.CHUNK_SIZE) {
+          const chunk = data.subarray(offset, offset + ClamdFileScanner.CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+}
+
+export function createFileScanner(settings = config.fileScanner): FileScanner {
+  switch (settings.driver) {
+    case 'none':
+      return new NoopFileScanner();
+    case 'clamd':
+      return new ClamdFileScanner(settings.clamdHost, settings.clamdPort, settings.timeoutMs);
+    default:
+      throw new Error(`Unknown FILE_SCANNER "${settings.driver}", expected "none" or "clamd"`);
+  }
+}
+
+export const fileScanner = createFileScanner();
@@ -0,0 +1,220 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { config } from "./config";
+
+export interface StoredFile {
+  body: Readable;
+  size?: number;
+}
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+// Uploaded files are addressed by a storage key, never by a path on disk, so
+// the driver behind this interface can change without touching resource rows
+export interface FileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredFile | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): AsyncIterable<StoredObject>;
+  lastModified(key: string): Promise<Date | undefined>;
+}
+
+// Content-addressed key for a file with the given hex SHA-256, so every
+// upload of the same bytes maps to one stored object
+export const CONTENT_KEY_PREFIX = 'files/sha256';
+
+export function contentKey(contentHash: string): string {
+  return `${CONTENT_KEY_PREFIX}/${contentHash.slice(0, 2)}/${contentHash}`;
+}
+
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export class LocalFileStore implements FileStore {
+  constructor(private readonly root: string) {}
+
+  // Keys are relative paths below root; anything escaping it is rejected
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<StoredFile | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      const { size } = await fs.promises.stat(filePath);
+      return { body: fs.createReadStream(filePath), size };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  async lastModified(key: string): Promise<Date | undefined> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).mtime;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  // Prefixes are directories here, e.g. "files/sha256"
+  async *list(prefix: string): AsyncIterable<StoredObject> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.resolve(prefix), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = path.posix.join(prefix, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.list(key);
+      } else if (entry.isFile()) {
+        const { mtime } = await fs.promises.stat(this.resolve(key));
+        yield { key, lastModified: mtime };
+      }
+    }
+  }
+}
+
+export class S3FileStore implements FileStore {
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string, options: {
+    region: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+  }) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<StoredFile | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { body: object.Body as Readable, size: object.ContentLength };
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async lastModified(key: string): Promise<Date | undefined> {
+    try {
+      const object = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.LastModified;
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<StoredObject> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (object.Key && object.LastModified) {
+          yield { key: object.Key, lastModified: object.LastModified };
+        }
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
+
+// GetObject fails with NoSuchKey and HeadObject (which has no body) with a bare 404
+function isNotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+export function createFileStore(settings = config.fileStore): FileStore {
+  switch (settings.driver) {
+    case 'local':
+      return new LocalFileStore(settings.localDir);
+    case 's3':
+      if (!settings.s3.bucket) {
+        throw new Error('S3_BUCKET must be set when FILE_STORE_DRIVER is "s3"');
+      }
+      return new S3FileStore(settings.s3.bucket, settings.s3);
+    default:
+      throw new Error(`Unknown FILE_STORE_DRIVER "${settings.driver}", expected "local" or "s3"`);
+  }
+}
+
+export const fileStore = createFileStore();
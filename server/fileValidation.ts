@@ -0,0 +1,94 @@
+import { fileTypeByFileName, fileTypeByMimeType, type FileTypeDefinition } from "@shared/fileTypes";
+
+// The MIME type multer reports is whatever the browser guessed from the file
+// name, so uploads are identified by their content instead.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+// Local file header, or the end of central directory of an empty archive
+const ZIP_SIGNATURES = [[0x50, 0x4b, 0x03, 0x04], [0x50, 0x4b, 0x05, 0x06]];
+// OLE compound file, the container of legacy Office formats
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const PDF_SIGNATURE = Array.from(Buffer.from('%PDF-'));
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+const WHITESPACE = [0x09, 0x0a, 0x0c, 0x0d, 0x20];
+
+// Windows (MZ), Linux (ELF) and macOS (Mach-O, 32/64-bit in both byte
+// orders, and universal) executables
+const EXECUTABLE_SIGNATURES = [
+  [0x4d, 0x5a],
+  [0x7f, 0x45, 0x4c, 0x46],
+  [0xfe, 0xed, 0xfa, 0xce],
+  [0xfe, 0xed, 0xfa, 0xcf],
+  [0xce, 0xfa, 0xed, 0xfe],
+  [0xcf, 0xfa, 0xed, 0xfe],
+  [0xca, 0xfe, 0xba, 0xbe],
+];
+
+function startsWith(data: Buffer, signature: number[], offset = 0): boolean {
+  return data.length >= offset + signature.length && signature.every((byte, i) => data[offset + i] === byte);
+}
+
+function isExecutable(data: Buffer): boolean {
+  return EXECUTABLE_SIGNATURES.some(signature => startsWith(data, signature));
+}
+
+// The PDF header has to open the file, after at most a BOM and whitespace
+function isPdf(data: Buffer): boolean {
+  let offset = startsWith(data, UTF8_BOM) ? UTF8_BOM.length : 0;
+  while (offset < data.length && WHITESPACE.includes(data[offset])) offset++;
+  return startsWith(data, PDF_SIGNATURE, offset);
+}
+
+// Text has no NUL bytes; executables and other binaries nearly always do
+function isText(data: Buffer): boolean {
+  return !data.includes(0);
+}
+
+function parseJson(data: Buffer): unknown {
+  try {
+    return JSON.parse(data.toString('utf8').replace(/^\uFEFF/, ''));
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesContainer(data: Buffer, type: FileTypeDefinition): boolean {
+  switch (type.container) {
+    case 'pdf':
+      return isPdf(data);
+    case 'png':
+      return startsWith(data, PNG_SIGNATURE);
+    case 'jpeg':
+      return startsWith(data, JPEG_SIGNATURE);
+    case 'zip':
+      // Entry names are stored uncompressed, so an Office file shows its main part in plain bytes
+      return ZIP_SIGNATURES.some(signature => startsWith(data, signature)) &&
+        (!type.marker || data.includes(type.marker));
+    case 'cfb':
+      return startsWith(data, CFB_SIGNATURE) &&
+        (!type.marker || data.includes(Buffer.from(type.marker, 'utf16le')));
+    case 'text':
+      return isText(data);
+    case 'json': {
+      if (!isText(data)) return false;
+      const value = parseJson(data);
+      if (value === undefined) return false;
+      return !type.marker || (typeof value === 'object' && value !== null && type.marker in value);
+    }
+  }
+}
+
+// The type an upload claims to be. Browsers report a generic or odd MIME type
+// for many text formats (e.g. video/mp2t for .ts), so the extension wins
+export function declaredFileType(fileName: string, mimeType: string): FileTypeDefinition | undefined {
+  return fileTypeByFileName(fileName) ?? fileTypeByMimeType(mimeType);
+}
+
+// The declared type of an upload whose content matches it, or undefined when
+// it does not (e.g. an executable renamed to .pdf)
+export function verifiedFileType(data: Buffer, fileName: string, mimeType: string): FileTypeDefinition | undefined {
+  if (isExecutable(data)) return undefined;
+  const declared = declaredFileType(fileName, mimeType);
+  return declared && matchesContainer(data, declared) ? declared : undefined;
+}
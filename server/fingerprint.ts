@@ -0,0 +1,106 @@
+// MinHash fingerprints of document text for near-duplicate detection.
+//
+// The text is split into overlapping word shingles; a signature keeps, for
+// each of NUM_HASHES hash functions, the smallest hash over all shingles. The
+// share of equal positions in two signatures estimates the Jaccard similarity
+// of their shingle sets. Signatures are cut into LSH bands so candidates can be
+// found with an index lookup: documents sharing any band are compared.
+//
+// Stored fingerprints depend on every constant below; changing one means
+// re-running `npm run files:fingerprint -- --all`.
+
+const SHINGLE_SIZE = 5; // Words per shingle
+const NUM_HASHES = 128;
+const ROWS_PER_BAND = 4; // 32 bands: pairs above ~0.5 similarity almost always share one
+const MIN_SHINGLES = 20; // Shorter texts are too small to compare meaningfully
+
+// FNV-1a over a string's UTF-16 code units
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, mixing a seed into a 32-bit hash
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Fixed seeds (golden-ratio multiples) so signatures stay comparable across restarts
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => (Math.imul(i + 1, 0x9e3779b1) + 0x7f4a7c15) >>> 0);
+
+function shingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// Signature of the text as signed 32-bit integers (to fit a Postgres
+// integer[]), or undefined if the text is too short
+export function minHashSignature(text: string): number[] | undefined {
+  const shingleSet = shingles(text);
+  if (shingleSet.size < MIN_SHINGLES) return undefined;
+
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of Array.from(shingleSet)) {
+    const hash = fnv1a(shingle);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = mix(hash, SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature.map(value => value | 0);
+}
+
+// One bucket per band of ROWS_PER_BAND signature values
+export function lshBuckets(signature: number[]): number[] {
+  const buckets: number[] = [];
+  for (let start = 0; start < signature.length; start += ROWS_PER_BAND) {
+    buckets.push(fnv1a(signature.slice(start, start + ROWS_PER_BAND).join(',')) | 0);
+  }
+  return buckets;
+}
+
+// Estimated Jaccard similarity of two signatures, between 0 and 1
+export function estimateSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / length;
+}
+
+// Groups ids connected by any pair into clusters (union-find)
+export function clusterPairs(pairs: [string, string][]): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const [a, b] of pairs) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of Array.from(parent.keys())) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  }
+  return Array.from(clusters.values());
+}
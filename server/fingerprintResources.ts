@@ -0,0 +1,60 @@
+// Extracts text from stored documents, notebooks and text files and
+// fingerprints it, for resources uploaded before near-duplicate detection.
+//
+//   npm run files:fingerprint              resources without a fingerprint
+//   npm run files:fingerprint -- --all     every resource, e.g. after changing
+//                                          the constants in server/fingerprint.ts
+import { pool } from "./db";
+import { storage } from "./storage";
+import { fileStore } from "./fileStore";
+import { canExtractText, extractText } from "./textExtraction";
+import { minHashSignature } from "./fingerprint";
+
+const all = process.argv.slice(2).includes('--all');
+
+async function main() {
+  let fingerprinted = 0;
+  let withoutText = 0;
+  let failed = 0;
+
+  for (const resource of await storage.getResourcesWithoutFingerprint({ all })) {
+    if (!resource.storageKey || !canExtractText(resource.fileType)) continue;
+
+    try {
+      const file = await fileStore.get(resource.storageKey);
+      if (!file) {
+        console.warn(`Missing file for resource ${resource.id}: ${resource.storageKey}`);
+        failed++;
+        continue;
+      }
+
+      const extractedText = await extractText(Buffer.concat(await file.body.toArray()), resource.fileType);
+      await storage.setExtractedText(resource.id, extractedText ?? null);
+
+      // Too little text still gets an (empty) fingerprint so later runs skip it
+      const signature = extractedText ? minHashSignature(extractedText) : undefined;
+      await storage.saveFingerprint(resource.id, signature ?? []);
+      if (signature) {
+        fingerprinted++;
+      } else {
+        withoutText++;
+      }
+    } catch (error) {
+      console.error(`Failed to fingerprint resource ${resource.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`Fingerprinted ${fingerprinted} resource(s), ${withoutText} without enough text, ${failed} failed`);
+  return failed === 0;
+}
+
+main()
+  .then((ok) => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch((error) => {
+    console.error("Fingerprinting failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
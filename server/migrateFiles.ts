@@ -0,0 +1,107 @@
+// Moves resource files into the configured file store (see config.fileStore)
+// under content-addressed keys, hashing any file that has no content hash yet.
+//
+//   npm run files:migrate                   move rows with a legacy file_path or an
+//                                           unhashed storage key
+//   npm run files:migrate -- --from-local   also copy files that are only in
+//                                           FILE_STORE_DIR, e.g. after switching the
+//                                           driver to "s3"
+//   npm run files:migrate -- --delete       remove the originals once they are moved
+//
+// Safe to re-run: a row only changes after its file is in the store.
+import fs from "fs";
+import { pool } from "./db";
+import { config } from "./config";
+import { storage } from "./storage";
+import { fileStore, contentKey, hashContent, LocalFileStore, type FileStore } from "./fileStore";
+
+const args = new Set(process.argv.slice(2));
+const fromLocal = args.has('--from-local');
+const deleteOriginals = args.has('--delete');
+
+async function readStored(store: FileStore, key: string): Promise<Buffer | undefined> {
+  const file = await store.get(key);
+  return file ? Buffer.concat(await file.body.toArray()) : undefined;
+}
+
+async function main() {
+  // With the local driver the local files are already in the store
+  const localStore = fromLocal && config.fileStore.driver !== 'local'
+    ? new LocalFileStore(config.fileStore.localDir)
+    : undefined;
+  let moved = 0;
+  let missing = 0;
+  let failed = 0;
+
+  for (const resource of await storage.getAllResources()) {
+    try {
+      if (resource.storageKey && resource.contentHash) {
+        if (!localStore || await fileStore.exists(resource.storageKey)) continue;
+
+        const data = await readStored(localStore, resource.storageKey);
+        if (!data) {
+          console.warn(`Missing file for resource ${resource.id}: ${resource.storageKey}`);
+          missing++;
+          continue;
+        }
+        await fileStore.put(resource.storageKey, data, resource.fileType);
+        if (deleteOriginals) {
+          await localStore.delete(resource.storageKey);
+        }
+        moved++;
+        continue;
+      }
+
+      // Unhashed files: a legacy path on disk, or a key from before content addressing
+      let data: Buffer | undefined;
+      let source: FileStore | undefined;
+      if (resource.storageKey) {
+        data = await readStored(fileStore, resource.storageKey);
+        source = fileStore;
+        if (!data && localStore) {
+          data = await readStored(localStore, resource.storageKey);
+          source = localStore;
+        }
+      } else if (resource.filePath && fs.existsSync(resource.filePath)) {
+        data = await fs.promises.readFile(resource.filePath);
+      }
+      if (!data) {
+        console.warn(`Missing file for resource ${resource.id}: ${resource.storageKey ?? resource.filePath}`);
+        missing++;
+        continue;
+      }
+
+      const contentHash = hashContent(data);
+      const storageKey = contentKey(contentHash);
+      if (!(await fileStore.exists(storageKey))) {
+        await fileStore.put(storageKey, data, resource.fileType);
+      }
+      await storage.setResourceFile(resource.id, { storageKey, contentHash });
+
+      if (deleteOriginals) {
+        if (resource.storageKey && source && resource.storageKey !== storageKey) {
+          await source.delete(resource.storageKey);
+        } else if (resource.filePath) {
+          await fs.promises.unlink(resource.filePath);
+        }
+      }
+      moved++;
+    } catch (error) {
+      console.error(`Failed to migrate resource ${resource.id}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`Moved ${moved} file(s) to the ${config.fileStore.driver} store, ${missing} missing, ${failed} failed`);
+  return failed === 0;
+}
+
+main()
+  .then((ok) => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch((error) => {
+    console.error("File migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,36 @@
+import { sql, type SQL } from "drizzle-orm";
+
+// Opaque keyset cursor: the sort key of the last item (as Postgres text) and its id
+export type Cursor = [sortKey: string, id: string];
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Returns undefined for anything that was not produced by encodeCursor
+export function decodeCursor(value: string): Cursor | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      typeof parsed[0] === "string" &&
+      typeof parsed[1] === "string"
+    ) {
+      return [parsed[0], parsed[1]];
+    }
+  } catch {
+    // Fall through to undefined
+  }
+  return undefined;
+}
+
+// Keyset condition for rows after the cursor. The cursor's sort key is sent
+// untyped so Postgres reads it back in the key expression's own type, which
+// keeps timestamps and float ranks exact.
+export function afterCursor(key: SQL, id: SQL, direction: "asc" | "desc", cursor: Cursor): SQL {
+  const operator = direction === "desc" ? sql.raw("<") : sql.raw(">");
+  return sql`(${key}, ${id}) ${operator} (${cursor[0]}, ${cursor[1]})`;
+}
+
+export const MAX_PAGE_SIZE = 100;
@@ -0,0 +1,16 @@
+// Recomputes every resource's average rating, weighted rating and rating
+// count. Ratings keep their own resource up to date as they change, so this
+// is only needed after changing RATING_PRIOR_MEAN, RATING_PRIOR_WEIGHT or
+// VERIFIED_REVIEW_WEIGHT.
+//
+//   npm run ratings:refresh
+import { pool } from "./db";
+import { storage } from "./storage";
+
+storage.refreshRatingStats()
+  .then(() => console.log("Refreshed rating stats"))
+  .catch((error) => {
+    console.error("Refreshing rating stats failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
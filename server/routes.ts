@@ -1,58 +1,127 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
-import { storage } from "./storage";
+import { storage, type ResourceFilters, type ResourceSort, type RatingSort, type TrendingTimeframe } from "./storage";
+import { decodeCursor } from "./pagination";
+import { fileStore, contentKey, hashContent, type StoredFile } from "./fileStore";
+import { canExtractText, extractText } from "./textExtraction";
+import { declaredFileType, verifiedFileType } from "./fileValidation";
+import { fileScanner, type ScanResult } from "./fileScanner";
+import { minHashSignature } from "./fingerprint";
+import { config } from "./config";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { z } from "zod";
 import { 
   insertResourceSchema, 
   insertRatingSchema, 
   insertFavoriteSchema,
-  insertTagSchema 
+  insertTagSchema,
+  insertSavedSearchSchema,
+  insertReviewVoteSchema,
+  reviewReplySchema,
+  insertCommentSchema
 } from "@shared/schema";
+import { isPreviewable } from "@shared/fileTypes";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Configure multer for file uploads
-  const uploadDir = path.join(process.cwd(), 'uploads');
-  if (!fs.existsSync(uploadDir)) {
-    fs.mkdirSync(uploadDir, { recursive: true });
+// Accepts both repeated (?fileType=pdf&fileType=doc) and comma-separated (?tags=exam,notes) values
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = parseInt(value as string);
+  return isNaN(number) ? undefined : number;
+}
+
+// Reads the filter query parameters shared by /api/resources and its facets
+function parseResourceFilters(query: Request["query"]): ResourceFilters {
+  const {
+    subject,
+    semester,
+    minRating,
+    search,
+    userId,
+    fuzzy,
+    fileType,
+    tags,
+    tagMode,
+    uploader,
+    uploadedAfter,
+    uploadedBefore,
+    minSize,
+    maxSize
+  } = query;
+  return {
+    subject: subject as string,
+    semester: semester as string,
+    minRating: minRating ? parseFloat(minRating as string) : undefined,
+    search: search as string,
+    userId: userId as string,
+    fuzzy: fuzzy === 'true',
+    fileTypes: parseList(fileType),
+    tags: parseList(tags),
+    tagMode: tagMode === 'all' ? 'all' : 'any',
+    uploader: uploader as string,
+    uploadedAfter: parseDate(uploadedAfter),
+    uploadedBefore: parseDate(uploadedBefore),
+    minSize: parseNumber(minSize),
+    maxSize: parseNumber(maxSize)
+  };
+}
+
+// filename parameter for Content-Disposition, with an ASCII fallback and the
+// full name in RFC 5987 form
+function contentDispositionFileName(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Streams a file from the file store, ending the response if the store fails mid-way
+function sendStoredFile(res: Response, file: StoredFile, contentType: string, disposition: string) {
+  res.type(contentType);
+  res.setHeader('Content-Disposition', disposition);
+  if (file.size !== undefined) {
+    res.setHeader('Content-Length', file.size);
   }
   
+  file.body.on('error', (error) => {
+    console.error('Error streaming file:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ message: "Error reading file" });
+    } else {
+      res.destroy(error);
+    }
+  });
+  file.body.pipe(res);
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Configure multer for file uploads. Files are held in memory (they are
+  // capped at 10MB) and then written to the configured file store
   const upload = multer({
-    storage: multer.diskStorage({
-      destination: (req: any, file, cb) => {
-        const userId = req.user?.claims?.sub;
-        const userUploadDir = path.join(uploadDir, userId || 'anonymous');
-        if (!fs.existsSync(userUploadDir)) {
-          fs.mkdirSync(userUploadDir, { recursive: true });
-        }
-        cb(null, userUploadDir);
-      },
-      filename: (req, file, cb) => {
-        const timestamp = Date.now();
-        const sanitizedName = file.originalname.replace(/[^a-zA-Z0-9.\-_]/g, '_');
-        cb(null, `${timestamp}-${sanitizedName}`);
-      }
-    }),
+    storage: multer.memoryStorage(),
     limits: {
       fileSize: 10 * 1024 * 1024 // 10MB limit
     },
     fileFilter: (req, file, cb) => {
-      // Allow PDF, Word docs, and images
-      const allowedTypes = [
-        'application/pdf',
-        'application/msword',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'image/jpeg',
-        'image/jpg', 
-        'image/png'
-      ];
-      if (allowedTypes.includes(file.mimetype)) {
+      // Allow the types in shared/fileTypes.ts. The declared type is only a
+      // first filter; the content is checked once the upload has been received
+      if (declaredFileType(file.originalname, file.mimetype)) {
         cb(null, true);
       } else {
-        cb(new Error('Invalid file type. Only PDF, Word documents, and images are allowed.'));
+        cb(new Error('Invalid file type. Allowed are documents, presentations, spreadsheets, images, text, code, notebooks and ZIP archives.'));
       }
     }
   });
@@ -60,6 +129,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
   
+  // Search setup: trigram extension and indexes for fuzzy matching, and index
+  // any resources created before full-text search and suggestions were introduced
+  await storage.ensureSearchExtensions();
+  await storage.backfillSearchVectors();
+  await storage.backfillSearchTerms();
+
+  // Give resources downloaded before deduplication a unique download count
+  await storage.backfillUniqueDownloadCounts();
+  
   // Admin middleware - checks if user is an admin
   const isAdmin = async (req: any, res: any, next: any) => {
     try {
@@ -81,6 +159,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // For routes that are open to everyone but show admins more
+  const isAdminUser = async (userId?: string) => {
+    if (!userId) return false;
+    const user = await storage.getUser(userId);
+    return user?.role === 'admin';
+  };
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -115,45 +200,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Search Routes
+
+  // GET /api/search/suggest - Instant resource, subject, tag and contributor matches
+  app.get('/api/search/suggest', async (req, res) => {
+    try {
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!q) {
+        return res.json({ resources: [], subjects: [], tags: [], contributors: [] });
+      }
+      
+      const limit = Math.min(Math.max(parseNumber(req.query.limit) ?? 5, 1), 10);
+      const suggestions = await storage.getInstantSuggestions(q, limit);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching search suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch search suggestions" });
+    }
+  });
+
   // Resource CRUD Routes
   
   // GET /api/resources - Get filtered resources
-  app.get('/api/resources', async (req, res) => {
+  app.get('/api/resources', async (req: any, res) => {
     try {
       const {
         limit,
-        offset,
-        subject,
-        semester,
-        minRating,
+        cursor,
         search,
         sortBy,
-        userId
+        highlight
       } = req.query;
       
-      const resources = await storage.getResources({
-        limit: limit ? parseInt(limit as string) : undefined,
-        offset: offset ? parseInt(offset as string) : undefined,
-        subject: subject as string,
-        semester: semester as string,
-        minRating: minRating ? parseFloat(minRating as string) : undefined,
-        search: search as string,
-        sortBy: sortBy as 'newest' | 'oldest' | 'rating' | 'downloads' | 'relevance',
-        userId: userId as string
+      const decodedCursor = cursor ? decodeCursor(cursor as string) : undefined;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const page = await storage.getResources({
+        ...parseResourceFilters(req.query),
+        limit: parseNumber(limit),
+        cursor: decodedCursor,
+        sortBy: sortBy as ResourceSort,
+        highlight: highlight === 'true',
+        viewerId: req.user?.claims?.sub
       });
       
-      res.json(resources);
+      // Offer a "did you mean" correction when a search comes back empty
+      const suggestion = search && page.totalCount === 0
+        ? await storage.getSearchSuggestion(search as string)
+        : undefined;
+      
+      res.json({ ...page, suggestion: suggestion ?? null });
     } catch (error) {
       console.error("Error fetching resources:", error);
       res.status(500).json({ message: "Failed to fetch resources" });
     }
   });
 
+  // GET /api/resources/facets - Get result counts per filter option
+  app.get('/api/resources/facets', async (req, res) => {
+    try {
+      const facets = await storage.getResourceFacets(parseResourceFilters(req.query));
+      res.json(facets);
+    } catch (error) {
+      console.error("Error fetching resource facets:", error);
+      res.status(500).json({ message: "Failed to fetch resource facets" });
+    }
+  });
+
   // GET /api/resources/:id - Get resource with details
-  app.get('/api/resources/:id', async (req, res) => {
+  app.get('/api/resources/:id', async (req: any, res) => {
     try {
       const { id } = req.params;
-      const resource = await storage.getResourceWithDetails(id);
+      const resource = await storage.getResourceWithDetails(id, req.user?.claims?.sub);
       
       if (!resource) {
         return res.status(404).json({ message: "Resource not found" });
@@ -167,6 +287,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/resources - Create new resource with file upload (protected)
+  // Responds 409 with the existing resources when the same file is already
+  // shared; send allowDuplicate=true to publish anyway. The created resource
+  // comes back with nearDuplicates: resources whose text is probably the same
+  // document (e.g. a re-exported or re-scanned copy)
   app.post('/api/resources', isAuthenticated, upload.single('file'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -185,6 +309,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // The stored type comes from the file's content, which must agree with
+      // what the browser declared
+      const fileType = verifiedFileType(req.file.buffer, req.file.originalname, req.file.mimetype)?.mimeType;
+      if (!fileType) {
+        return res.status(415).json({ message: "The file's contents do not match its type" });
+      }
+      
+      let scan: ScanResult;
+      try {
+        scan = await fileScanner.scan(req.file.buffer, req.file.originalname);
+      } catch (scanError) {
+        console.error("Error scanning upload:", scanError);
+        return res.status(503).json({ message: "Uploads cannot be checked right now, please try again later" });
+      }
+      if (!scan.clean) {
+        console.warn(`Rejected upload "${req.file.originalname}" from user ${userId}: ${scan.threat}`);
+        return res.status(422).json({ message: "The file was rejected by the malware scanner" });
+      }
+      
+      const contentHash = hashContent(req.file.buffer);
+      if (req.body.allowDuplicate !== 'true') {
+        const duplicates = await storage.getResourcesByContentHash(contentHash);
+        if (duplicates.length > 0) {
+          return res.status(409).json({
+            message: "This file has already been shared",
+            duplicates
+          });
+        }
+      }
+      
+      // Text of PDF, DOCX, notebook and plain-text files, for search and
+      // near-duplicate detection. A file that cannot be parsed is still
+      // accepted, just without text
+      let extractedText: string | undefined;
+      let textExtracted = false;
+      try {
+        extractedText = await extractText(req.file.buffer, fileType);
+        textExtracted = canExtractText(fileType);
+      } catch (extractError) {
+        console.warn("Failed to extract text from upload:", extractError);
+      }
+      const signature = extractedText ? minHashSignature(extractedText) : undefined;
+      const nearDuplicates = signature ? await storage.findNearDuplicates(signature) : [];
+      
       // Prepare resource data
       const resourceData = insertResourceSchema.parse({
         title: req.body.title,
@@ -193,11 +361,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         semester: req.body.semester || null,
         fileName: req.file.originalname,
         fileSize: req.file.size,
-        fileType: req.file.mimetype,
-        filePath: req.file.path,
+        fileType,
+        storageKey: contentKey(contentHash),
+        contentHash,
+        extractedText: extractedText ?? null,
         uploadedById: userId
       });
       
+      // Identical files share one stored object. It is written even when it
+      // exists, so its timestamp is fresh and `npm run files:sweep` (which
+      // removes orphans older than a grace period) leaves it alone until the
+      // resource references it. It is never deleted here, even if creating
+      // the resource fails: a concurrent upload of the same bytes may rely on it
+      await fileStore.put(resourceData.storageKey, req.file.buffer, fileType);
+      
       const resource = await storage.createResource(resourceData);
       
       // Handle tags if provided
@@ -220,19 +397,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.status(201).json(resource);
-    } catch (error) {
-      console.error("Error creating resource:", error);
-      
-      // Clean up uploaded file if resource creation failed
-      if (req.file && fs.existsSync(req.file.path)) {
+      // The resource is published at this point, so a failure here must not
+      // turn into an error response; files:fingerprint fills the gap later.
+      // Files with too little text get an empty signature, so it skips them
+      const fingerprint = signature ?? (textExtracted ? [] : undefined);
+      if (fingerprint) {
         try {
-          fs.unlinkSync(req.file.path);
-        } catch (cleanupError) {
-          console.error("Failed to cleanup uploaded file:", cleanupError);
+          await storage.saveFingerprint(resource.id, fingerprint);
+        } catch (fingerprintError) {
+          console.warn("Failed to save fingerprint:", fingerprintError);
         }
       }
       
+      res.status(201).json({ ...resource, nearDuplicates });
+    } catch (error) {
+      console.error("Error creating resource:", error);
+      
       if (error instanceof Error && error.name === 'ZodError') {
         return res.status(400).json({ message: "Invalid resource data", errors: (error as any).errors });
       }
@@ -311,24 +491,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Resource not found" });
       }
       
-      // Check if file exists on filesystem
-      if (!fs.existsSync(resource.filePath)) {
-        console.error(`File not found on filesystem: ${resource.filePath}`);
+      // Check if file exists in the file store (rows from before the store
+      // have no key until `npm run files:migrate` has moved them)
+      const file = resource.storageKey ? await fileStore.get(resource.storageKey) : undefined;
+      if (!file) {
+        console.error(`File not found in file store: ${resource.storageKey ?? resource.filePath}`);
         return res.status(404).json({ message: "File not found on server" });
       }
       
-      // Increment download count
-      await storage.incrementDownloadCount(id);
+      // Record who downloaded it (also increments the download counts; repeats
+      // within the dedupe window only count towards the raw total)
+      await storage.recordDownload(id, req.user.claims.sub);
       
-      // Use res.download for secure file serving with proper header handling
-      res.download(resource.filePath, resource.fileName, (error) => {
-        if (error) {
-          console.error('Error downloading file:', error);
-          if (!res.headersSent) {
-            res.status(500).json({ message: "Error downloading file" });
-          }
-        }
-      });
+      sendStoredFile(res, file, resource.fileType, `attachment; ${contentDispositionFileName(resource.fileName)}`);
     } catch (error) {
       console.error("Error downloading file:", error);
       if (!res.headersSent) {
@@ -336,30 +511,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
   });
-  
+
+
+  // GET /api/resources/:id/downloads/history - Downloads per day, for the last ?days= (default 30, at most 365)
+  app.get('/api/resources/:id/downloads/history', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const days = parseNumber(req.query.days) ?? 30;
+      if (days < 1 || days > 365) {
+        return res.status(400).json({ message: "days must be between 1 and 365" });
+      }
+
+      const history = await storage.getDownloadHistory(id, days);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching download history:", error);
+      res.status(500).json({ message: "Failed to fetch download history" });
+    }
+  });
+
+  // GET /api/resources/:id/preview - Serve a PDF or image inline for the detail page (protected)
+  // Unlike /download this does not count as a download
+  app.get('/api/resources/:id/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      if (!isPreviewable(resource.fileType)) {
+        return res.status(415).json({ message: "Preview not available for this file type" });
+      }
+      
+      const file = resource.storageKey ? await fileStore.get(resource.storageKey) : undefined;
+      if (!file) {
+        console.error(`File not found in file store: ${resource.storageKey ?? resource.filePath}`);
+        return res.status(404).json({ message: "File not found on server" });
+      }
+      
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      sendStoredFile(res, file, resource.fileType, 'inline');
+    } catch (error) {
+      console.error("Error previewing file:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to preview file" });
+      }
+    }
+  });
 
   // Rating Routes
 
-  // GET /api/resources/:id/ratings - Get ratings for resource
-  app.get('/api/resources/:id/ratings', async (req, res) => {
+  // GET /api/resources/:id/ratings - Get a page of ratings for resource, with reviewer info
+  app.get('/api/resources/:id/ratings', async (req: any, res) => {
     try {
       const { id } = req.params;
-      const ratings = await storage.getRatingsForResource(id);
-      res.json(ratings);
+      const { limit, cursor, sortBy } = req.query;
+      
+      const decodedCursor = cursor ? decodeCursor(cursor as string) : undefined;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const page = await storage.getRatingsForResource(id, {
+        limit: parseNumber(limit),
+        cursor: decodedCursor,
+        sortBy: sortBy as RatingSort,
+        viewerId: req.user?.claims?.sub
+      });
+      res.json(page);
     } catch (error) {
       console.error("Error fetching ratings:", error);
       res.status(500).json({ message: "Failed to fetch ratings" });
     }
   });
 
+  // GET /api/resources/:id/ratings/summary - Get star distribution for resource
+  app.get('/api/resources/:id/ratings/summary', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const summary = await storage.getRatingSummary(id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching rating summary:", error);
+      res.status(500).json({ message: "Failed to fetch rating summary" });
+    }
+  });
+
+  // GET /api/resources/:id/ratings/me - Get the caller's own rating, or null (protected)
+  app.get('/api/resources/:id/ratings/me', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      
+      const rating = await storage.getRating(id, userId);
+      res.json(rating ?? null);
+    } catch (error) {
+      console.error("Error fetching rating:", error);
+      res.status(500).json({ message: "Failed to fetch rating" });
+    }
+  });
+
   // POST /api/resources/:id/ratings - Create/update rating (protected)
   app.post('/api/resources/:id/ratings', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { id } = req.params;
       
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      if (resource.uploadedById === userId) {
+        return res.status(403).json({ message: "You cannot rate your own resource" });
+      }
+      
       const ratingData = insertRatingSchema.parse({
-        ...req.body,
+        rating: req.body.rating,
+        review: typeof req.body.review === 'string' && req.body.review.trim() ? req.body.review.trim() : null,
         resourceId: id,
         userId
       });
@@ -368,6 +639,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(rating);
     } catch (error) {
       console.error("Error creating/updating rating:", error);
+      
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid rating data", errors: (error as any).errors });
+      }
+      
       res.status(500).json({ message: "Failed to create/update rating" });
     }
   });
@@ -390,13 +666,286 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // PUT /api/resources/:id/ratings/:reviewerId/reply - Create or edit the uploader's reply to a review (protected, uploader only)
+  app.put('/api/resources/:id/ratings/:reviewerId/reply', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, reviewerId } = req.params;
+      
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      if (resource.uploadedById !== userId) {
+        return res.status(403).json({ message: "Only the uploader can reply to reviews" });
+      }
+      
+      const validation = reviewReplySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid reply", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      const rating = await storage.setReviewReply(id, reviewerId, validation.data.reply);
+      if (!rating) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      res.json(rating);
+    } catch (error) {
+      console.error("Error replying to review:", error);
+      res.status(500).json({ message: "Failed to reply to review" });
+    }
+  });
+
+  // DELETE /api/resources/:id/ratings/:reviewerId/reply - Delete the uploader's reply (protected, uploader only)
+  app.delete('/api/resources/:id/ratings/:reviewerId/reply', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, reviewerId } = req.params;
+      
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      if (resource.uploadedById !== userId) {
+        return res.status(403).json({ message: "Only the uploader can delete replies" });
+      }
+      
+      const review = await storage.getRating(id, reviewerId);
+      if (!review || review.reply === null) {
+        return res.status(404).json({ message: "Reply not found" });
+      }
+      
+      await storage.setReviewReply(id, reviewerId, null);
+      res.json({ message: "Reply deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting review reply:", error);
+      res.status(500).json({ message: "Failed to delete reply" });
+    }
+  });
+
+  // PUT /api/resources/:id/ratings/:reviewerId/vote - Mark a review helpful or not (protected)
+  app.put('/api/resources/:id/ratings/:reviewerId/vote', isAuthenticated, async (req: any, res) => {
+    try {
+      const voterId = req.user.claims.sub;
+      const { id, reviewerId } = req.params;
+      
+      if (reviewerId === voterId) {
+        return res.status(400).json({ message: "You cannot vote on your own review" });
+      }
+      
+      const review = await storage.getRating(id, reviewerId);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      
+      const voteData = insertReviewVoteSchema.parse({
+        resourceId: id,
+        reviewerId,
+        voterId,
+        helpful: req.body.helpful
+      });
+      
+      const vote = await storage.voteOnReview(voteData);
+      res.json(vote);
+    } catch (error) {
+      console.error("Error voting on review:", error);
+      
+      if (error instanceof Error && error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid vote data", errors: (error as any).errors });
+      }
+      
+      res.status(500).json({ message: "Failed to vote on review" });
+    }
+  });
+
+  // DELETE /api/resources/:id/ratings/:reviewerId/vote - Remove caller's vote on a review (protected)
+  app.delete('/api/resources/:id/ratings/:reviewerId/vote', isAuthenticated, async (req: any, res) => {
+    try {
+      const voterId = req.user.claims.sub;
+      const { id, reviewerId } = req.params;
+      
+      const success = await storage.removeReviewVote(id, reviewerId, voterId);
+      if (success) {
+        res.json({ message: "Vote removed successfully" });
+      } else {
+        res.status(404).json({ message: "Vote not found" });
+      }
+    } catch (error) {
+      console.error("Error removing review vote:", error);
+      res.status(500).json({ message: "Failed to remove vote" });
+    }
+  });
+
+  // Comment Routes
+
+  // GET /api/resources/:id/comments - Get a page of comment threads for resource
+  app.get('/api/resources/:id/comments', async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { limit, cursor } = req.query;
+      
+      const decodedCursor = cursor ? decodeCursor(cursor as string) : undefined;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const page = await storage.getComments(id, {
+        limit: parseNumber(limit),
+        cursor: decodedCursor,
+        includeHidden: await isAdminUser(req.user?.claims?.sub)
+      });
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  // POST /api/resources/:id/comments - Comment on a resource or reply to a comment (protected)
+  app.post('/api/resources/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      
+      const resource = await storage.getResource(id);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      
+      const validation = insertCommentSchema.safeParse({
+        resourceId: id,
+        userId,
+        parentId: req.body.parentId || null,
+        body: req.body.body
+      });
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid comment", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      if (validation.data.parentId) {
+        const parent = await storage.getComment(validation.data.parentId);
+        if (!parent || parent.resourceId !== id) {
+          return res.status(404).json({ message: "Parent comment not found" });
+        }
+        if (parent.isDeleted || parent.isHidden) {
+          return res.status(400).json({ message: "Cannot reply to a removed comment" });
+        }
+      }
+      
+      const comment = await storage.createComment(validation.data);
+      res.status(201).json(comment);
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      res.status(500).json({ message: "Failed to create comment" });
+    }
+  });
+
+  // PUT /api/resources/:id/comments/:commentId - Edit a comment, keeping the old text as history (protected, author only)
+  app.put('/api/resources/:id/comments/:commentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, commentId } = req.params;
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.resourceId !== id || comment.isDeleted) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      if (comment.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to edit this comment" });
+      }
+      
+      const validation = insertCommentSchema.pick({ body: true }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid comment", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      if (validation.data.body === comment.body) {
+        return res.json(comment);
+      }
+      
+      const updatedComment = await storage.updateComment(commentId, validation.data.body);
+      res.json(updatedComment);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // DELETE /api/resources/:id/comments/:commentId - Soft delete a comment (protected, author or admin)
+  app.delete('/api/resources/:id/comments/:commentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, commentId } = req.params;
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.resourceId !== id || comment.isDeleted) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      if (comment.userId !== userId && !(await isAdminUser(userId))) {
+        return res.status(403).json({ message: "Not authorized to delete this comment" });
+      }
+      
+      await storage.deleteComment(commentId);
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // GET /api/resources/:id/comments/:commentId/history - Get previous versions of a comment, newest first
+  app.get('/api/resources/:id/comments/:commentId/history', async (req: any, res) => {
+    try {
+      const { id, commentId } = req.params;
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.resourceId !== id || comment.isDeleted) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      if (comment.isHidden && !(await isAdminUser(req.user?.claims?.sub))) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      const edits = await storage.getCommentEdits(commentId);
+      res.json(edits);
+    } catch (error) {
+      console.error("Error fetching comment history:", error);
+      res.status(500).json({ message: "Failed to fetch comment history" });
+    }
+  });
+
   // Favorite Routes
 
   // GET /api/users/me/favorites - Get user's favorites (protected)
   app.get('/api/users/me/favorites', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const favorites = await storage.getUserFavorites(userId);
+      const { limit, cursor } = req.query;
+      
+      const decodedCursor = cursor ? decodeCursor(cursor as string) : undefined;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const favorites = await storage.getUserFavorites(userId, {
+        limit: parseNumber(limit),
+        cursor: decodedCursor
+      });
       res.json(favorites);
     } catch (error) {
       console.error("Error fetching favorites:", error);
@@ -441,6 +990,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Saved Search Routes
+
+  // GET /api/users/me/saved-searches - Get user's saved searches (protected)
+  app.get('/api/users/me/saved-searches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const savedSearches = await storage.getSavedSearches(userId);
+      res.json(savedSearches);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  // POST /api/users/me/saved-searches - Save a named search (protected)
+  app.post('/api/users/me/saved-searches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const validation = insertSavedSearchSchema.safeParse({
+        name: req.body.name,
+        query: req.body.query ?? '',
+        userId
+      });
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid saved search", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      const savedSearch = await storage.saveSearch(validation.data);
+      res.status(201).json(savedSearch);
+    } catch (error) {
+      console.error("Error saving search:", error);
+      res.status(500).json({ message: "Failed to save search" });
+    }
+  });
+
+  // DELETE /api/users/me/saved-searches/:id - Delete a saved search (protected)
+  app.delete('/api/users/me/saved-searches/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      
+      const success = await storage.deleteSavedSearch(userId, id);
+      if (success) {
+        res.json({ message: "Saved search deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Saved search not found" });
+      }
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
   // Tag Routes
 
   // GET /api/tags - Get all tags
@@ -577,6 +1183,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // PUT /api/admin/comments/:id/status - Hide or unhide a comment (admin only)
+  app.put('/api/admin/comments/:id/status', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      
+      const statusUpdateSchema = z.object({
+        isHidden: z.boolean()
+      });
+      
+      const validation = statusUpdateSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: validation.error.errors 
+        });
+      }
+      
+      const comment = await storage.setCommentHidden(id, validation.data.isHidden, req.user.claims.sub);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      res.json(comment);
+    } catch (error) {
+      console.error("Error updating comment status:", error);
+      res.status(500).json({ message: "Failed to update comment status" });
+    }
+  });
+  
+  // GET /api/admin/duplicates - Get clusters of identical or near-identical resources (admin only)
+  // Optional threshold (0-1) overrides the configured similarity cut-off
+  app.get('/api/admin/duplicates', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const threshold = req.query.threshold !== undefined
+        ? parseFloat(req.query.threshold as string)
+        : undefined;
+      if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+        return res.status(400).json({ message: "Threshold must be between 0 and 1" });
+      }
+      
+      const clusters = await storage.getDuplicateClusters(threshold ?? config.nearDuplicateThreshold);
+      res.json(clusters);
+    } catch (error) {
+      console.error("Error fetching duplicate clusters:", error);
+      res.status(500).json({ message: "Failed to fetch duplicate clusters" });
+    }
+  });
+  
   // GET /api/admin/stats - Get admin dashboard stats
   app.get('/api/admin/stats', isAuthenticated, isAdmin, async (req, res) => {
     try {
@@ -591,15 +1245,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Trending Routes
 
   // GET /api/trending/resources - Get trending resources
-  app.get('/api/trending/resources', async (req, res) => {
+  app.get('/api/trending/resources', async (req: any, res) => {
     try {
       const { timeframe = 'week' } = req.query;
       const validTimeframes = ['week', 'month', 'all'];
       const selectedTimeframe = validTimeframes.includes(timeframe as string) 
-        ? (timeframe as 'week' | 'month' | 'all') 
+        ? (timeframe as TrendingTimeframe) 
         : 'week';
       
-      const trendingResources = await storage.getTrendingResources(selectedTimeframe);
+      const trendingResources = await storage.getTrendingResources(selectedTimeframe, req.user?.claims?.sub);
       res.json(trendingResources);
     } catch (error) {
       console.error("Error fetching trending resources:", error);
@@ -613,7 +1267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { timeframe = 'week' } = req.query;
       const validTimeframes = ['week', 'month', 'all'];
       const selectedTimeframe = validTimeframes.includes(timeframe as string) 
-        ? (timeframe as 'week' | 'month' | 'all') 
+        ? (timeframe as TrendingTimeframe) 
         : 'week';
       
       const trendingSubjects = await storage.getTrendingSubjects(selectedTimeframe);
@@ -5,6 +5,14 @@ import {
   tags,
   resourceTags,
   favorites,
+  savedSearches,
+  reviewVotes,
+  downloadEvents,
+  searchTerms,
+  comments,
+  commentEdits,
+  resourceFingerprints,
+  fingerprintBands,
   type User, 
   type InsertUser,
   type UpsertUser,
@@ -16,10 +24,319 @@ import {
   type InsertTag,
   type Favorite,
   type InsertFavorite,
-  type ResourceWithDetails
+  type SavedSearch,
+  type InsertSavedSearch,
+  type ResourceWithDetails,
+  type DuplicateResource,
+  type NearDuplicate,
+  type DuplicateCluster,
+  type ReviewListItem,
+  type ReviewVote,
+  type InsertReviewVote,
+  type Comment,
+  type InsertComment,
+  type CommentEdit,
+  type CommentWithAuthor,
+  type CommentThread,
+  type RatingSummary,
+  type DownloadHistoryDay,
+  type ResourceListItem,
+  type ResourceFacets,
+  type SearchSuggestions,
+  type FacetCount,
+  type Page
 } from "@shared/schema";
+import { FILE_TYPES } from "@shared/fileTypes";
+import { alias, type AnyPgColumn, type PgTable } from "drizzle-orm/pg-core";
 import { db } from "./db";
-import { eq, desc, and, ilike, gte, sql, count } from "drizzle-orm";
+import { config } from "./config";
+import { afterCursor, encodeCursor, MAX_PAGE_SIZE, type Cursor } from "./pagination";
+import { clusterPairs, estimateSimilarity, lshBuckets } from "./fingerprint";
+import { eq, desc, and, or, gte, lt, lte, sql, count, inArray, getTableColumns, type SQL } from "drizzle-orm";
+
+// Every resource column except the search vector and the extracted file text,
+// which are only used inside queries
+const { searchVector: _searchVector, extractedText: _extractedText, ...resourceColumns } = getTableColumns(resources);
+
+// Parses user input with web-search syntax: "exact phrase", -excluded, a OR b
+const toTsQuery = (search: string): SQL => sql`websearch_to_tsquery('english', ${search})`;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10';
+// ts_headline re-parses its input for every row, so only the start of the file text is used
+const HEADLINE_TEXT_CHARS = 20000;
+
+// Minimum pg_trgm word similarity for fuzzy matches and "did you mean" suggestions
+const FUZZY_SIMILARITY_THRESHOLD = 0.5;
+
+// User input in LIKE patterns is escaped so "%" and "_" match literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+const ilikeEscaped = (column: AnyPgColumn | SQL, pattern: string): SQL => sql`${column} ILIKE ${pattern} ESCAPE '\\'`;
+
+// Public profile fields of a user, for relational queries (never email or role)
+const uploaderColumns = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  fullName: true,
+  profileImageUrl: true,
+} as const;
+
+// Verified-download reviews count config.verifiedReviewWeight times in averages
+const reviewWeight = sql`CASE WHEN ${ratings.verified} THEN ${config.verifiedReviewWeight}::numeric ELSE 1 END`;
+
+// Bayesian average of a resource's (weighted) ratings, mixing in
+// config.ratingPriorWeight phantom ratings of config.ratingPriorMean stars
+function bayesianRating(resourceId: SQL) {
+  const priorWeight = sql`${config.ratingPriorWeight}::numeric`;
+  const priorMean = sql`${config.ratingPriorMean}::numeric`;
+  return sql<string>`COALESCE((
+    SELECT (${priorWeight} * ${priorMean} + COALESCE(SUM(${ratings.rating} * ${reviewWeight}), 0))
+      / NULLIF(${priorWeight} + COALESCE(SUM(${reviewWeight}), 0), 0)
+    FROM ${ratings}
+    WHERE ${ratings.resourceId} = ${resourceId}
+  ), 0)`;
+}
+
+// Display fields for resources reported as duplicates, for relational queries
+const duplicateResourceQuery = {
+  columns: { id: true, title: true, subject: true, createdAt: true },
+  with: { uploadedBy: { columns: uploaderColumns } },
+} as const;
+
+// List items are built in one query: the uploader is joined, tag names are
+// aggregated in a subquery and the caller's favorite and rating are left
+// joined through these aliases (so favorites can also be the base table)
+const viewerFavorites = alias(favorites, "viewer_favorites");
+const viewerRatings = alias(ratings, "viewer_ratings");
+
+function listItemColumns() {
+  return {
+    ...resourceColumns,
+    uploadedBy: {
+      id: users.id,
+      username: users.username,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      fullName: users.fullName,
+      profileImageUrl: users.profileImageUrl,
+    },
+    tags: sql<string[]>`COALESCE((
+      SELECT array_agg(${tags.name} ORDER BY ${tags.name})
+      FROM ${resourceTags}
+      INNER JOIN ${tags} ON ${tags.id} = ${resourceTags.tagId}
+      WHERE ${resourceTags.resourceId} = ${resources.id}
+    ), ARRAY[]::text[])`,
+    isFavorited: sql<boolean>`${viewerFavorites.resourceId} IS NOT NULL`,
+    userRating: viewerRatings.rating,
+  };
+}
+
+// A NULL viewer matches no rows, so signed-out callers get false/null
+const viewerFavoriteJoin = (viewerId?: string) => and(
+  eq(viewerFavorites.resourceId, resources.id),
+  sql`${viewerFavorites.userId} = ${viewerId ?? null}`
+);
+const viewerRatingJoin = (viewerId?: string) => and(
+  eq(viewerRatings.resourceId, resources.id),
+  sql`${viewerRatings.userId} = ${viewerId ?? null}`
+);
+
+export type ResourceSort = 'newest' | 'oldest' | 'rating' | 'downloads' | 'relevance';
+
+export type TrendingTimeframe = 'week' | 'month' | 'all';
+
+const TRENDING_WINDOW_DAYS = { week: 7, month: 30 } as const;
+
+// The current trending window and the one of the same length just before it,
+// or null for all-time, which has nothing to compare against
+function trendingWindows(timeframe: TrendingTimeframe) {
+  if (timeframe === 'all') return null;
+  const length = TRENDING_WINDOW_DAYS[timeframe] * 24 * 60 * 60 * 1000;
+  const now = Date.now();
+  return { start: new Date(now - length), previousStart: new Date(now - 2 * length) };
+}
+
+// Unique downloads of a resource from `from` up to (not including) `to`
+function downloadsBetween(from: Date, to?: Date) {
+  return sql<number>`(
+    SELECT COUNT(*)::int FROM ${downloadEvents}
+    WHERE ${downloadEvents.resourceId} = ${resources.id}
+      AND ${downloadEvents.counted}
+      AND ${gte(downloadEvents.createdAt, from)}
+      ${to ? sql`AND ${lt(downloadEvents.createdAt, to)}` : sql``}
+  )`;
+}
+
+// Sum of weight / (age in days + 1) ^ gravity over a resource's activity rows
+// in one table, optionally only those since `since` and matching `filter`.
+// Timestamps are stored as UTC without a time zone, so the age is measured
+// from the current UTC time whatever the session's TimeZone is
+function decayedActivity(table: PgTable, resourceId: AnyPgColumn, createdAt: AnyPgColumn, weight: number, since?: Date, filter?: SQL) {
+  const ageInDays = sql`EXTRACT(EPOCH FROM ((now() AT TIME ZONE 'UTC') - ${createdAt})) / 86400`;
+  return sql<number>`COALESCE((
+    SELECT SUM(${weight}::numeric / POWER(GREATEST(${ageInDays}, 0) + 1, ${config.trendingGravity}::numeric))
+    FROM ${table}
+    WHERE ${resourceId} = ${resources.id}
+      ${since ? sql`AND ${gte(createdAt, since)}` : sql``}
+      ${filter ? sql`AND ${filter}` : sql``}
+  ), 0)`;
+}
+
+// Time-decayed trending score over downloads, ratings and favorites
+function trendingScore(since?: Date) {
+  return sql<string>`(
+    ${decayedActivity(downloadEvents, downloadEvents.resourceId, downloadEvents.createdAt, config.trendingDownloadWeight, since, sql`${downloadEvents.counted}`)} +
+    ${decayedActivity(ratings, ratings.resourceId, ratings.createdAt, config.trendingRatingWeight, since)} +
+    ${decayedActivity(favorites, favorites.resourceId, favorites.createdAt, config.trendingFavoriteWeight, since)}
+  )`;
+}
+
+// Percent change against the previous window; null when the previous window
+// had no downloads, since any growth from zero is meaningless as a percentage
+function growthRate(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+export type RatingSort = 'newest' | 'helpful' | 'highest' | 'lowest';
+
+// Filters shared by resource listings and their facet counts
+export type ResourceFilters = {
+  subject?: string;
+  semester?: string;
+  minRating?: number;
+  search?: string;
+  userId?: string; // For user's own resources
+  fuzzy?: boolean; // Also match misspelled titles, subjects and tags
+  fileTypes?: string[]; // File type families, see fileTypeFamily
+  tags?: string[];
+  tagMode?: 'any' | 'all'; // Match resources with any (OR) or all (AND) of the tags
+  uploader?: string; // Uploader username or part of their name
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+  minSize?: number; // Bytes
+  maxSize?: number; // Bytes
+};
+
+// Groups stored MIME types into the families offered by the browse filters,
+// as listed in shared/fileTypes.ts. The types are inlined as literals rather
+// than parameters so the same expression can appear in GROUP BY
+const sqlLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+const fileTypeFamily = sql<string>`CASE ${resources.fileType} ${sql.raw(
+  FILE_TYPES.flatMap(type => [type.mimeType, ...(type.aliases ?? [])]
+    .map(mimeType => `WHEN ${sqlLiteral(mimeType)} THEN ${sqlLiteral(type.family)}`))
+    .join(' ')
+)} ELSE 'other' END`;
+
+// Minimum average ratings offered as "N+ stars" buckets
+const RATING_BUCKETS = [4, 3, 2, 1];
+
+// Builds the WHERE conditions for a set of filters. Facet counts pass the
+// filter they are counting in `exclude` so the other options stay visible.
+function buildResourceConditions(filters: ResourceFilters, exclude?: keyof ResourceFilters) {
+  const {
+    subject,
+    semester,
+    minRating,
+    search,
+    userId,
+    fuzzy = false,
+    fileTypes,
+    tags: tagNames,
+    tagMode = 'any',
+    uploader,
+    uploadedAfter,
+    uploadedBefore,
+    minSize,
+    maxSize
+  } = filters;
+  const conditions: SQL[] = [eq(resources.isActive, true)];
+
+  if (subject && exclude !== 'subject') {
+    conditions.push(eq(resources.subject, subject));
+  }
+
+  if (semester && exclude !== 'semester') {
+    conditions.push(eq(resources.semester, semester));
+  }
+
+  if (minRating && exclude !== 'minRating') {
+    conditions.push(gte(resources.averageRating, minRating.toString()));
+  }
+
+  const searchText = search?.trim();
+  const searchQuery = searchText ? toTsQuery(searchText) : undefined;
+  const similarity = fuzzy && searchText
+    ? sql<number>`GREATEST(word_similarity(${searchText}, ${resources.title}), word_similarity(${searchText}, ${resources.subject}))`
+    : undefined;
+  if (searchQuery && similarity) {
+    conditions.push(sql`(
+      ${resources.searchVector} @@ ${searchQuery}
+      OR ${similarity} >= ${FUZZY_SIMILARITY_THRESHOLD}
+      OR EXISTS (
+        SELECT 1 FROM ${resourceTags}
+        INNER JOIN ${tags} ON ${tags.id} = ${resourceTags.tagId}
+        WHERE ${resourceTags.resourceId} = ${resources.id}
+          AND word_similarity(${searchText}, ${tags.name}) >= ${FUZZY_SIMILARITY_THRESHOLD}
+      )
+    )`);
+  } else if (searchQuery) {
+    conditions.push(sql`${resources.searchVector} @@ ${searchQuery}`);
+  }
+
+  if (userId) {
+    conditions.push(eq(resources.uploadedById, userId));
+  }
+
+  if (fileTypes && fileTypes.length > 0 && exclude !== 'fileTypes') {
+    conditions.push(inArray(fileTypeFamily, fileTypes));
+  }
+
+  if (tagNames && tagNames.length > 0 && exclude !== 'tags') {
+    const names = Array.from(new Set(tagNames.map(name => name.toLowerCase())));
+    const matchingTags = sql`
+      FROM ${resourceTags}
+      INNER JOIN ${tags} ON ${tags.id} = ${resourceTags.tagId}
+      WHERE ${resourceTags.resourceId} = ${resources.id}
+        AND lower(${tags.name}) IN (${sql.join(names.map(name => sql`${name}`), sql`, `)})
+    `;
+    conditions.push(tagMode === 'all'
+      ? sql`(SELECT COUNT(DISTINCT lower(${tags.name})) ${matchingTags}) = ${names.length}`
+      : sql`EXISTS (SELECT 1 ${matchingTags})`);
+  }
+
+  if (uploader?.trim()) {
+    const pattern = `%${escapeLike(uploader.trim())}%`;
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${users}
+      WHERE ${users.id} = ${resources.uploadedById}
+        AND (
+          ${ilikeEscaped(users.username, pattern)}
+          OR ${ilikeEscaped(users.fullName, pattern)}
+          OR ${ilikeEscaped(sql`concat_ws(' ', ${users.firstName}, ${users.lastName})`, pattern)}
+        )
+    )`);
+  }
+
+  if (uploadedAfter) {
+    conditions.push(gte(resources.createdAt, uploadedAfter));
+  }
+
+  if (uploadedBefore) {
+    conditions.push(lte(resources.createdAt, uploadedBefore));
+  }
+
+  if (minSize !== undefined) {
+    conditions.push(gte(resources.fileSize, minSize));
+  }
+
+  if (maxSize !== undefined) {
+    conditions.push(lte(resources.fileSize, maxSize));
+  }
+
+  return { conditions, searchQuery, similarity };
+}
 
 export interface IStorage {
   // User operations (including Replit Auth required methods)
@@ -31,28 +348,75 @@ export interface IStorage {
   
   // Resource operations
   getResource(id: string): Promise<Resource | undefined>;
-  getResourceWithDetails(id: string): Promise<ResourceWithDetails | undefined>;
-  getResources(options?: {
+  getResourceWithDetails(id: string, viewerId?: string): Promise<ResourceWithDetails | undefined>;
+  getResources(options?: ResourceFilters & {
     limit?: number;
-    offset?: number;
-    subject?: string;
-    semester?: string;
-    minRating?: number;
-    search?: string;
-    sortBy?: 'newest' | 'oldest' | 'rating' | 'downloads' | 'relevance';
-    userId?: string; // For user's own resources
-  }): Promise<Resource[]>;
+    cursor?: Cursor; // Continue after the last item of a previous page
+    sortBy?: ResourceSort;
+    highlight?: boolean; // Return a marked-up snippet for search matches
+    viewerId?: string; // Signed-in caller, for isFavorited and userRating
+  }): Promise<Page<ResourceListItem>>;
+  getResourceFacets(filters?: ResourceFilters): Promise<ResourceFacets>;
   createResource(resource: InsertResource): Promise<Resource>;
   updateResource(id: string, updates: Partial<Resource>): Promise<Resource | undefined>;
   deleteResource(id: string): Promise<boolean>;
-  incrementDownloadCount(id: string): Promise<void>;
+  getResourcesByContentHash(contentHash: string): Promise<DuplicateResource[]>;
+  setResourceFile(id: string, file: { storageKey: string; contentHash: string }): Promise<void>;
+  getReferencedStorageKeys(keys: string[]): Promise<Set<string>>;
+  incrementDownloadCount(id: string, unique?: boolean): Promise<void>;
+  recordDownload(resourceId: string, userId: string): Promise<boolean>;
+  backfillUniqueDownloadCounts(): Promise<void>;
+  hasDownloaded(userId: string, resourceId: string): Promise<boolean>;
+  getDownloadHistory(resourceId: string, days?: number): Promise<DownloadHistoryDay[]>;
+  
+  // Search operations
+  ensureSearchExtensions(): Promise<void>;
+  refreshSearchVector(resourceId: string): Promise<void>;
+  backfillSearchTerms(): Promise<void>;
+  backfillSearchVectors(): Promise<void>;
+  getSearchSuggestion(search: string): Promise<string | undefined>;
+  getInstantSuggestions(query: string, limit?: number): Promise<SearchSuggestions>;
   
   // Rating operations
   getRating(resourceId: string, userId: string): Promise<Rating | undefined>;
-  getRatingsForResource(resourceId: string): Promise<Rating[]>;
+  getRatingsForResource(resourceId: string, options?: {
+    limit?: number;
+    cursor?: Cursor;
+    sortBy?: RatingSort;
+    viewerId?: string; // Signed-in caller, for viewerVote
+  }): Promise<Page<ReviewListItem>>;
+  getRatingSummary(resourceId: string): Promise<RatingSummary>;
+  setReviewReply(resourceId: string, reviewerId: string, reply: string | null): Promise<Rating | undefined>;
+  voteOnReview(vote: InsertReviewVote): Promise<ReviewVote>;
+  removeReviewVote(resourceId: string, reviewerId: string, voterId: string): Promise<boolean>;
   createOrUpdateRating(rating: InsertRating): Promise<Rating>;
   deleteRating(resourceId: string, userId: string): Promise<boolean>;
   updateResourceRatingStats(resourceId: string): Promise<void>;
+  refreshRatingStats(): Promise<void>;
+  
+  // Comment operations
+  getComments(resourceId: string, options?: {
+    limit?: number;
+    cursor?: Cursor;
+    includeHidden?: boolean; // Admins see the text of hidden comments
+  }): Promise<Page<CommentThread>>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(comment: InsertComment): Promise<Comment>;
+  updateComment(id: string, body: string): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<boolean>;
+  setCommentHidden(id: string, isHidden: boolean, adminId: string): Promise<Comment | undefined>;
+  getCommentEdits(commentId: string): Promise<CommentEdit[]>;
+  
+  // Near-duplicate operations
+  setExtractedText(resourceId: string, extractedText: string | null): Promise<void>;
+  saveFingerprint(resourceId: string, signature: number[]): Promise<void>;
+  getResourcesWithoutFingerprint(options?: { all?: boolean }): Promise<Pick<Resource, "id" | "storageKey" | "fileType">[]>;
+  findNearDuplicates(signature: number[], options?: {
+    threshold?: number;
+    limit?: number;
+    excludeResourceId?: string;
+  }): Promise<NearDuplicate[]>;
+  getDuplicateClusters(threshold?: number): Promise<DuplicateCluster[]>;
   
   // Tag operations
   getTag(id: string): Promise<Tag | undefined>;
@@ -68,10 +432,15 @@ export interface IStorage {
   
   // Favorite operations
   getFavorite(userId: string, resourceId: string): Promise<Favorite | undefined>;
-  getUserFavorites(userId: string): Promise<Resource[]>;
+  getUserFavorites(userId: string, options?: { limit?: number; cursor?: Cursor }): Promise<Page<ResourceListItem>>;
   addFavorite(favorite: InsertFavorite): Promise<Favorite>;
   removeFavorite(userId: string, resourceId: string): Promise<boolean>;
   
+  // Saved search operations
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  saveSearch(savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  deleteSavedSearch(userId: string, id: string): Promise<boolean>;
+  
   // Stats operations
   getDashboardStats(): Promise<{
     totalResources: number;
@@ -86,7 +455,7 @@ export interface IStorage {
   }>;
   
   // Trending operations
-  getTrendingResources(timeframe?: 'week' | 'month' | 'all'): Promise<{
+  getTrendingResources(timeframe?: TrendingTimeframe, viewerId?: string): Promise<{
     id: string;
     title: string;
     description: string;
@@ -101,14 +470,18 @@ export interface IStorage {
       firstName?: string;
       lastName?: string;
     };
+    tags: string[];
+    isFavorited: boolean;
+    userRating: number | null;
+    recentDownloads: number;
     trendingScore: number;
-    growthRate: number;
+    growthRate: number | null;
   }[]>;
-  getTrendingSubjects(timeframe?: 'week' | 'month' | 'all'): Promise<{
+  getTrendingSubjects(timeframe?: TrendingTimeframe): Promise<{
     subject: string;
     resourceCount: number;
     totalDownloads: number;
-    growthRate: number;
+    growthRate: number | null;
   }[]>;
   
   // Admin operations
@@ -132,10 +505,47 @@ export interface IStorage {
     resourceCount: number;
     totalDownloads: number;
     averageRating: number;
+    weightedRating: number;
     joinedAt: string;
   }[]>;
 }
 
+// Builds the weighted search document for the resource row being updated:
+// title (A), subject and tag names (B), description (C), file text (D)
+function searchDocument(): SQL {
+  return sql`
+    setweight(to_tsvector('english', coalesce(${resources.title}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${resources.subject}, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(${tags.name}, ' ')
+      FROM ${resourceTags}
+      INNER JOIN ${tags} ON ${tags.id} = ${resourceTags.tagId}
+      WHERE ${resourceTags.resourceId} = ${resources.id}
+    ), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(${resources.description}, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(${resources.extractedText}, '')), 'D')
+  `;
+}
+
+// Words of active resources' titles, subjects and tag names that are long
+// enough to be suggested, as unstemmed lower-case lexemes
+function searchTermsOfResources(): SQL {
+  return sql`
+    SELECT DISTINCT term
+    FROM ${resources}, unnest(tsvector_to_array(to_tsvector('simple', concat_ws(' ',
+      ${resources.title},
+      ${resources.subject},
+      (
+        SELECT string_agg(${tags.name}, ' ')
+        FROM ${resourceTags}
+        INNER JOIN ${tags} ON ${tags.id} = ${resourceTags.tagId}
+        WHERE ${resourceTags.resourceId} = ${resources.id}
+      )
+    )))) AS term
+    WHERE ${resources.isActive} = true AND length(term) >= 3
+  `;
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -184,16 +594,29 @@ export class DatabaseStorage implements IStorage {
 
   // Resource operations
   async getResource(id: string): Promise<Resource | undefined> {
-    const [resource] = await db.select().from(resources).where(eq(resources.id, id));
+    const [resource] = await db.select(resourceColumns).from(resources).where(eq(resources.id, id));
     return resource || undefined;
   }
 
-  async getResourceWithDetails(id: string): Promise<ResourceWithDetails | undefined> {
+  async getResourceWithDetails(id: string, viewerId?: string): Promise<ResourceWithDetails | undefined> {
     const result = await db.query.resources.findFirst({
       where: eq(resources.id, id),
+      columns: {
+        searchVector: false,
+        extractedText: false
+      },
       with: {
-        uploadedBy: true,
-        ratings: true,
+        uploadedBy: {
+          columns: uploaderColumns
+        },
+        ratings: {
+          orderBy: [desc(ratings.createdAt)],
+          with: {
+            user: {
+              columns: uploaderColumns
+            }
+          }
+        },
         resourceTags: {
           with: {
             tag: true
@@ -203,89 +626,164 @@ export class DatabaseStorage implements IStorage {
     });
     
     if (!result) return undefined;
+
+    const isFavorited = viewerId ? !!(await this.getFavorite(viewerId, id)) : false;
+    const userRating = viewerId
+      ? result.ratings.find(rating => rating.userId === viewerId)?.rating ?? null
+      : null;
     
     return {
       ...result,
       averageRating: parseFloat(result.averageRating || "0"),
       ratingCount: result.ratingCount || 0,
-    } as ResourceWithDetails;
+      isFavorited,
+      userRating,
+    };
   }
 
-  async getResources(options: {
+  async getResources(options: ResourceFilters & {
     limit?: number;
-    offset?: number;
-    subject?: string;
-    semester?: string;
-    minRating?: number;
-    search?: string;
-    sortBy?: 'newest' | 'oldest' | 'rating' | 'downloads' | 'relevance';
-    userId?: string;
-  } = {}): Promise<Resource[]> {
+    cursor?: Cursor;
+    sortBy?: ResourceSort;
+    highlight?: boolean;
+    viewerId?: string;
+  } = {}): Promise<Page<ResourceListItem>> {
     const {
       limit = 50,
-      offset = 0,
-      subject,
-      semester,
-      minRating,
-      search,
+      cursor,
       sortBy = 'newest',
-      userId
+      highlight = false,
+      viewerId
     } = options;
 
-    // Build conditions array
-    const conditions = [eq(resources.isActive, true)];
-    
-    if (subject) {
-      conditions.push(eq(resources.subject, subject));
-    }
-    
-    if (semester) {
-      conditions.push(eq(resources.semester, semester));
-    }
-    
-    if (minRating) {
-      conditions.push(gte(resources.averageRating, minRating.toString()));
-    }
-    
-    if (search) {
-      conditions.push(
-        sql`(${resources.title} ILIKE ${`%${search}%`} OR ${resources.description} ILIKE ${`%${search}%`})`
-      );
-    }
-    
-    if (userId) {
-      conditions.push(eq(resources.uploadedById, userId));
-    }
+    const { conditions, searchQuery, similarity } = buildResourceConditions(options);
 
     // Build where clause
     const whereClause = conditions.length === 1 ? conditions[0] : and(...conditions);
 
-    // Build order by clause
-    let orderBy;
+    // Every sort mode orders by a single key with the id as tie-breaker, so it
+    // can be paginated by keyset
+    let sortKey: SQL;
+    let direction: 'asc' | 'desc' = 'desc';
     switch (sortBy) {
       case 'oldest':
-        orderBy = resources.createdAt;
+        sortKey = sql`${resources.createdAt}`;
+        direction = 'asc';
         break;
       case 'rating':
-        orderBy = desc(resources.averageRating);
+        sortKey = sql`COALESCE(${resources.weightedRating}, 0)`;
         break;
       case 'downloads':
-        orderBy = desc(resources.downloadCount);
+        sortKey = sql`COALESCE(${resources.uniqueDownloadCount}, 0)`;
+        break;
+      case 'relevance':
+        // Without a query there is nothing to rank, so relevance behaves like newest
+        if (searchQuery) {
+          sortKey = similarity
+            ? sql`ts_rank(${resources.searchVector}, ${searchQuery}) + ${similarity}`
+            : sql`ts_rank(${resources.searchVector}, ${searchQuery})`;
+        } else {
+          sortKey = sql`${resources.createdAt}`;
+        }
         break;
       case 'newest':
       default:
-        orderBy = desc(resources.createdAt);
+        sortKey = sql`${resources.createdAt}`;
         break;
     }
+    const order = direction === 'desc'
+      ? [desc(sortKey), desc(resources.id)]
+      : [sortKey, sql`${resources.id}`];
 
-    // Execute query
-    return await db
-      .select()
+    // Snippets are only meaningful when there is a query to match against
+    const snippet = highlight && searchQuery
+      ? sql<string | null>`ts_headline('english', concat_ws(' — ', ${resources.title}, ${resources.description}, left(${resources.extractedText}, ${HEADLINE_TEXT_CHARS})), ${searchQuery}, ${HEADLINE_OPTIONS})`
+      : sql<string | null>`NULL`;
+
+    // Fetch one extra row to find out whether there is a next page
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const rows = await db
+      .select({ ...listItemColumns(), snippet, cursorKey: sql<string>`(${sortKey})::text` })
       .from(resources)
-      .where(whereClause)
-      .orderBy(orderBy)
-      .limit(limit)
-      .offset(offset);
+      .innerJoin(users, eq(users.id, resources.uploadedById))
+      .leftJoin(viewerFavorites, viewerFavoriteJoin(viewerId))
+      .leftJoin(viewerRatings, viewerRatingJoin(viewerId))
+      .where(cursor ? and(whereClause, afterCursor(sortKey, sql`${resources.id}`, direction, cursor)) : whereClause)
+      .orderBy(...order)
+      .limit(pageSize + 1);
+
+    const [{ totalCount }] = await db
+      .select({ totalCount: count() })
+      .from(resources)
+      .where(whereClause);
+
+    const hasMore = rows.length > pageSize;
+    const pageRows = rows.slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items: pageRows.map(({ cursorKey, ...item }) => item),
+      nextCursor: hasMore && last ? encodeCursor([last.cursorKey, last.id]) : null,
+      totalCount,
+    };
+  }
+
+  async getResourceFacets(filters: ResourceFilters = {}): Promise<ResourceFacets> {
+    const toFacetCounts = (rows: { value: string | null; count: number }[]): FacetCount[] =>
+      rows
+        .filter((row): row is FacetCount => row.value !== null)
+        .map(row => ({ value: row.value, count: Number(row.count) }));
+
+    const subjectRows = await db
+      .select({ value: resources.subject, count: count() })
+      .from(resources)
+      .where(and(...buildResourceConditions(filters, 'subject').conditions))
+      .groupBy(resources.subject)
+      .orderBy(desc(count()));
+
+    const semesterRows = await db
+      .select({ value: resources.semester, count: count() })
+      .from(resources)
+      .where(and(...buildResourceConditions(filters, 'semester').conditions))
+      .groupBy(resources.semester)
+      .orderBy(desc(count()));
+
+    const fileTypeRows = await db
+      .select({ value: fileTypeFamily, count: count() })
+      .from(resources)
+      .where(and(...buildResourceConditions(filters, 'fileTypes').conditions))
+      .groupBy(fileTypeFamily)
+      .orderBy(desc(count()));
+
+    const tagRows = await db
+      .select({ value: tags.name, count: count() })
+      .from(resources)
+      .innerJoin(resourceTags, eq(resourceTags.resourceId, resources.id))
+      .innerJoin(tags, eq(tags.id, resourceTags.tagId))
+      .where(and(...buildResourceConditions(filters, 'tags').conditions))
+      .groupBy(tags.name)
+      .orderBy(desc(count()), tags.name)
+      .limit(50);
+
+    // Rating buckets are cumulative ("3+ stars" includes 4 and 5 star resources)
+    const [ratingRow] = await db
+      .select(Object.fromEntries(RATING_BUCKETS.map(bucket => [
+        `min${bucket}`,
+        sql<number>`COUNT(*) FILTER (WHERE CAST(${resources.averageRating} AS DECIMAL) >= ${bucket})`,
+      ])))
+      .from(resources)
+      .where(and(...buildResourceConditions(filters, 'minRating').conditions));
+
+    return {
+      subjects: toFacetCounts(subjectRows),
+      semesters: toFacetCounts(semesterRows),
+      fileTypes: toFacetCounts(fileTypeRows),
+      tags: toFacetCounts(tagRows),
+      ratings: RATING_BUCKETS.map(bucket => ({
+        value: bucket.toString(),
+        count: Number(ratingRow?.[`min${bucket}`] ?? 0),
+      })),
+    };
   }
 
   async createResource(insertResource: InsertResource): Promise<Resource> {
@@ -293,10 +791,13 @@ export class DatabaseStorage implements IStorage {
       .insert(resources)
       .values({
         ...insertResource,
+        weightedRating: config.ratingPriorMean.toFixed(2), // No ratings yet, so just the prior
         createdAt: new Date(),
         updatedAt: new Date(),
       })
-      .returning();
+      .returning(resourceColumns);
+
+    await this.refreshSearchVector(resource.id);
     return resource;
   }
 
@@ -308,7 +809,11 @@ export class DatabaseStorage implements IStorage {
         updatedAt: new Date() 
       })
       .where(eq(resources.id, id))
-      .returning();
+      .returning(resourceColumns);
+
+    if (resource && (updates.title !== undefined || updates.description !== undefined || updates.subject !== undefined)) {
+      await this.refreshSearchVector(id);
+    }
     return resource || undefined;
   }
 
@@ -320,16 +825,290 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
-  async incrementDownloadCount(id: string): Promise<void> {
+  // Active resources whose file has this SHA-256, oldest first
+  async getResourcesByContentHash(contentHash: string): Promise<DuplicateResource[]> {
+    return await db.query.resources.findMany({
+      ...duplicateResourceQuery,
+      where: and(eq(resources.contentHash, contentHash), eq(resources.isActive, true)),
+      orderBy: [resources.createdAt],
+    });
+  }
+
+  // Moves a resource onto a file store key without counting as an edit
+  async setResourceFile(id: string, file: { storageKey: string; contentHash: string }): Promise<void> {
+    await db
+      .update(resources)
+      .set({ ...file, filePath: null })
+      .where(eq(resources.id, id));
+  }
+
+  // The keys still used by any resource row, including inactive ones
+  async getReferencedStorageKeys(keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) return new Set();
+    const rows = await db
+      .selectDistinct({ storageKey: resources.storageKey })
+      .from(resources)
+      .where(inArray(resources.storageKey, keys));
+    return new Set(rows.map(row => row.storageKey!));
+  }
+
+  async incrementDownloadCount(id: string, unique = true): Promise<void> {
     await db
       .update(resources)
       .set({ 
         downloadCount: sql`${resources.downloadCount} + 1`,
-        updatedAt: new Date()
+        ...(unique && { uniqueDownloadCount: sql`COALESCE(${resources.uniqueDownloadCount}, 0) + 1` }),
       })
       .where(eq(resources.id, id));
   }
 
+  // Logs the download and returns whether it counted as a unique download,
+  // i.e. the user had no counted download of it within the dedupe window
+  async recordDownload(resourceId: string, userId: string): Promise<boolean> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - config.downloadDedupeWindowHours * 60 * 60 * 1000);
+    const counted = await db.transaction(async (tx) => {
+      // Concurrent downloads by the same user queue here, so the second one
+      // sees the first one's event and is not counted again
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${resourceId}), hashtext(${userId}))`);
+      const [event] = await tx
+        .insert(downloadEvents)
+        .values({
+          resourceId,
+          userId,
+          counted: sql`NOT EXISTS (
+            SELECT 1 FROM ${downloadEvents}
+            WHERE ${and(
+              eq(downloadEvents.resourceId, resourceId),
+              eq(downloadEvents.userId, userId),
+              eq(downloadEvents.counted, true),
+              gte(downloadEvents.createdAt, windowStart)
+            )}
+          )`,
+          createdAt: now,
+        })
+        .returning({ counted: downloadEvents.counted });
+      return event.counted;
+    });
+    await this.incrementDownloadCount(resourceId, counted);
+
+    // A rating left before downloading becomes verified now
+    const result = await db
+      .update(ratings)
+      .set({ verified: true })
+      .where(and(
+        eq(ratings.resourceId, resourceId),
+        eq(ratings.userId, userId),
+        eq(ratings.verified, false)
+      ));
+    if ((result.rowCount ?? 0) > 0) {
+      await this.updateResourceRatingStats(resourceId);
+    }
+    return counted;
+  }
+
+  // Downloads from before deduplication are all treated as unique. A resource
+  // downloaded since always has a unique count, so this only touches old rows
+  async backfillUniqueDownloadCounts(): Promise<void> {
+    await db
+      .update(resources)
+      .set({ uniqueDownloadCount: resources.downloadCount })
+      .where(and(
+        sql`COALESCE(${resources.uniqueDownloadCount}, 0) = 0`,
+        sql`${resources.downloadCount} > 0`
+      ));
+  }
+
+  async hasDownloaded(userId: string, resourceId: string): Promise<boolean> {
+    const [event] = await db
+      .select({ id: downloadEvents.id })
+      .from(downloadEvents)
+      .where(and(eq(downloadEvents.resourceId, resourceId), eq(downloadEvents.userId, userId)))
+      .limit(1);
+    return !!event;
+  }
+
+  // Downloads per UTC day over the last `days` days, oldest first, including
+  // days without any
+  async getDownloadHistory(resourceId: string, days = 30): Promise<DownloadHistoryDay[]> {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const since = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    const day = sql<string>`to_char(${downloadEvents.createdAt}, 'YYYY-MM-DD')`;
+    const rows = await db
+      .select({
+        date: day,
+        downloads: count(),
+        uniqueDownloads: sql<number>`COUNT(*) FILTER (WHERE ${downloadEvents.counted})::int`,
+      })
+      .from(downloadEvents)
+      .where(and(eq(downloadEvents.resourceId, resourceId), gte(downloadEvents.createdAt, since)))
+      .groupBy(day);
+
+    const byDate = new Map(rows.map(row => [row.date, row]));
+    return Array.from({ length: days }, (_, i) => {
+      const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const row = byDate.get(date);
+      return {
+        date,
+        downloads: Number(row?.downloads ?? 0),
+        uniqueDownloads: Number(row?.uniqueDownloads ?? 0),
+      };
+    });
+  }
+
+  // Search operations
+  // Also creates the trigram indexes declared in shared/schema.ts, which
+  // `db:push` cannot create before the extension exists
+  async ensureSearchExtensions(): Promise<void> {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_resources_title_trgm" ON resources USING gin (title gin_trgm_ops)`);
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_resources_subject_trgm" ON resources USING gin (subject gin_trgm_ops)`);
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_tags_name_trgm" ON tags USING gin (name gin_trgm_ops)`);
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_search_terms_trgm" ON search_terms USING gin (term gin_trgm_ops)`);
+  }
+
+  // Updates the resource's search document and adds its words to the
+  // suggestion vocabulary
+  async refreshSearchVector(resourceId: string): Promise<void> {
+    await db
+      .update(resources)
+      .set({ searchVector: searchDocument() })
+      .where(eq(resources.id, resourceId));
+    await db.execute(sql`
+      INSERT INTO ${searchTerms} (term)
+      ${searchTermsOfResources()} AND ${resources.id} = ${resourceId}
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  // Fills the suggestion vocabulary the first time, e.g. after upgrading
+  async backfillSearchTerms(): Promise<void> {
+    const [existing] = await db.select({ term: searchTerms.term }).from(searchTerms).limit(1);
+    if (existing) return;
+    await db.execute(sql`
+      INSERT INTO ${searchTerms} (term)
+      ${searchTermsOfResources()}
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  async backfillSearchVectors(): Promise<void> {
+    await db
+      .update(resources)
+      .set({ searchVector: searchDocument() })
+      .where(sql`${resources.searchVector} IS NULL`);
+  }
+
+  async getSearchSuggestion(search: string): Promise<string | undefined> {
+    const words = search.toLowerCase().match(/[^\s"()-]+/g) ?? [];
+    if (words.length === 0) return undefined;
+
+    // Correct each word against the vocabulary of titles, subjects and tag
+    // names; `%` finds candidates through the trigram index
+    let changed = false;
+    const corrected: string[] = [];
+    for (const word of words) {
+      if (word.length < 3) {
+        corrected.push(word);
+        continue;
+      }
+
+      const result = await db.execute<{ term: string }>(sql`
+        SELECT ${searchTerms.term} AS term
+        FROM ${searchTerms}
+        WHERE ${searchTerms.term} % ${word}
+          AND similarity(${searchTerms.term}, ${word}) >= ${FUZZY_SIMILARITY_THRESHOLD}
+        ORDER BY similarity(${searchTerms.term}, ${word}) DESC, ${searchTerms.term}
+        LIMIT 1
+      `);
+
+      const best = result.rows[0]?.term;
+      if (best && best !== word) {
+        changed = true;
+        corrected.push(best);
+      } else {
+        corrected.push(word);
+      }
+    }
+
+    return changed ? corrected.join(' ') : undefined;
+  }
+
+  async getInstantSuggestions(query: string, limit: number = 5): Promise<SearchSuggestions> {
+    const term = query.trim();
+    const pattern = `%${escapeLike(term)}%`;
+    const prefix = `${escapeLike(term)}%`;
+    const activeResource = eq(resources.isActive, true);
+
+    // Prefix matches first, then the closest partial matches
+    const [matchingResources, subjects, tagCounts, contributors] = await Promise.all([
+      db
+        .select({
+          id: resources.id,
+          title: resources.title,
+          subject: resources.subject,
+          fileType: resources.fileType,
+        })
+        .from(resources)
+        .where(and(activeResource, ilikeEscaped(resources.title, pattern)))
+        .orderBy(
+          desc(ilikeEscaped(resources.title, prefix)),
+          desc(sql`word_similarity(${term}, ${resources.title})`),
+          desc(sql`COALESCE(${resources.uniqueDownloadCount}, 0)`)
+        )
+        .limit(limit),
+      db
+        .select({ value: resources.subject, count: count() })
+        .from(resources)
+        .where(and(activeResource, ilikeEscaped(resources.subject, pattern)))
+        .groupBy(resources.subject)
+        .orderBy(desc(ilikeEscaped(resources.subject, prefix)), desc(count()))
+        .limit(limit),
+      db
+        .select({ value: tags.name, count: count() })
+        .from(tags)
+        .innerJoin(resourceTags, eq(resourceTags.tagId, tags.id))
+        .innerJoin(resources, eq(resources.id, resourceTags.resourceId))
+        .where(and(activeResource, ilikeEscaped(tags.name, pattern)))
+        .groupBy(tags.name)
+        .orderBy(desc(ilikeEscaped(tags.name, prefix)), desc(count()))
+        .limit(limit),
+      // Only users who have shared something count as contributors
+      db
+        .select({
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          fullName: users.fullName,
+          profileImageUrl: users.profileImageUrl,
+        })
+        .from(users)
+        .where(and(
+          or(
+            ilikeEscaped(users.username, pattern),
+            ilikeEscaped(users.fullName, pattern),
+            ilikeEscaped(sql`concat_ws(' ', ${users.firstName}, ${users.lastName})`, pattern)
+          ),
+          sql`EXISTS (
+            SELECT 1 FROM ${resources}
+            WHERE ${resources.uploadedById} = ${users.id} AND ${resources.isActive} = true
+          )`
+        ))
+        .orderBy(desc(ilikeEscaped(users.username, prefix)), users.username)
+        .limit(limit),
+    ]);
+
+    return {
+      resources: matchingResources,
+      subjects: subjects.map(s => ({ value: s.value, count: Number(s.count) })),
+      tags: tagCounts.map(t => ({ value: t.value, count: Number(t.count) })),
+      contributors,
+    };
+  }
+
   // Rating operations
   async getRating(resourceId: string, userId: string): Promise<Rating | undefined> {
     const [rating] = await db
@@ -339,15 +1118,124 @@ export class DatabaseStorage implements IStorage {
     return rating || undefined;
   }
 
-  async getRatingsForResource(resourceId: string): Promise<Rating[]> {
-    return db.select().from(ratings).where(eq(ratings.resourceId, resourceId));
+  async getRatingsForResource(resourceId: string, options: {
+    limit?: number;
+    cursor?: Cursor;
+    sortBy?: RatingSort;
+    viewerId?: string;
+  } = {}): Promise<Page<ReviewListItem>> {
+    const { limit = 10, cursor, sortBy = 'newest', viewerId } = options;
+    const whereClause = eq(ratings.resourceId, resourceId);
+
+    const votesOnReview = sql`
+      FROM ${reviewVotes}
+      WHERE ${reviewVotes.resourceId} = ${ratings.resourceId}
+        AND ${reviewVotes.reviewerId} = ${ratings.userId}
+    `;
+    const helpfulCount = sql<number>`(SELECT COUNT(*) ${votesOnReview} AND ${reviewVotes.helpful})::int`;
+    const notHelpfulCount = sql<number>`(SELECT COUNT(*) ${votesOnReview} AND NOT ${reviewVotes.helpful})::int`;
+    // A NULL viewer matches no vote, so signed-out callers get null
+    const viewerVote = sql<boolean | null>`(SELECT ${reviewVotes.helpful} ${votesOnReview} AND ${reviewVotes.voterId} = ${viewerId ?? null})`;
+
+    // Same single-key keyset scheme as getResources, with the reviewer's id
+    // as tie-breaker (one rating per user per resource)
+    let sortKey: SQL;
+    let direction: 'asc' | 'desc' = 'desc';
+    switch (sortBy) {
+      case 'helpful':
+        // Net helpfulness: helpful votes minus not-helpful votes
+        sortKey = sql`(${helpfulCount} - ${notHelpfulCount})`;
+        break;
+      case 'highest':
+        sortKey = sql`${ratings.rating}`;
+        break;
+      case 'lowest':
+        sortKey = sql`${ratings.rating}`;
+        direction = 'asc';
+        break;
+      case 'newest':
+      default:
+        sortKey = sql`${ratings.createdAt}`;
+        break;
+    }
+    const order = direction === 'desc'
+      ? [desc(sortKey), desc(ratings.userId)]
+      : [sortKey, sql`${ratings.userId}`];
+
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const rows = await db
+      .select({
+        ...getTableColumns(ratings),
+        user: {
+          id: users.id,
+          username: users.username,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          fullName: users.fullName,
+          profileImageUrl: users.profileImageUrl,
+        },
+        helpfulCount,
+        notHelpfulCount,
+        viewerVote,
+        cursorKey: sql<string>`(${sortKey})::text`,
+      })
+      .from(ratings)
+      .innerJoin(users, eq(users.id, ratings.userId))
+      .where(cursor ? and(whereClause, afterCursor(sortKey, sql`${ratings.userId}`, direction, cursor)) : whereClause)
+      .orderBy(...order)
+      .limit(pageSize + 1);
+
+    const [{ totalCount }] = await db
+      .select({ totalCount: count() })
+      .from(ratings)
+      .where(whereClause);
+
+    const hasMore = rows.length > pageSize;
+    const pageRows = rows.slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items: pageRows.map(({ cursorKey, ...item }) => item),
+      nextCursor: hasMore && last ? encodeCursor([last.cursorKey, last.userId]) : null,
+      totalCount,
+    };
+  }
+
+  async getRatingSummary(resourceId: string): Promise<RatingSummary> {
+    const rows = await db
+      .select({
+        stars: ratings.rating,
+        count: count(),
+        verifiedCount: sql<number>`COUNT(*) FILTER (WHERE ${ratings.verified})::int`,
+      })
+      .from(ratings)
+      .where(eq(ratings.resourceId, resourceId))
+      .groupBy(ratings.rating);
+
+    const [resource] = await db
+      .select({ averageRating: resources.averageRating })
+      .from(resources)
+      .where(eq(resources.id, resourceId));
+
+    const counts = new Map(rows.map(row => [row.stars, Number(row.count)]));
+    const distribution = [5, 4, 3, 2, 1].map(stars => ({ stars, count: counts.get(stars) ?? 0 }));
+
+    return {
+      averageRating: parseFloat(resource?.averageRating || "0"),
+      ratingCount: distribution.reduce((sum, bucket) => sum + bucket.count, 0),
+      verifiedCount: rows.reduce((sum, row) => sum + Number(row.verifiedCount), 0),
+      distribution,
+    };
   }
 
   async createOrUpdateRating(insertRating: InsertRating): Promise<Rating> {
+    const verified = await this.hasDownloaded(insertRating.userId, insertRating.resourceId);
+
     const [rating] = await db
       .insert(ratings)
       .values({
         ...insertRating,
+        verified,
         createdAt: new Date(),
         updatedAt: new Date(),
       })
@@ -356,6 +1244,7 @@ export class DatabaseStorage implements IStorage {
         set: {
           rating: insertRating.rating,
           review: insertRating.review,
+          verified,
           updatedAt: new Date(),
         }
       })
@@ -368,6 +1257,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteRating(resourceId: string, userId: string): Promise<boolean> {
+    // Votes reference the review, so they go with it
+    await db
+      .delete(reviewVotes)
+      .where(and(eq(reviewVotes.resourceId, resourceId), eq(reviewVotes.reviewerId, userId)));
+
     const result = await db
       .delete(ratings)
       .where(and(eq(ratings.resourceId, resourceId), eq(ratings.userId, userId)));
@@ -379,10 +1273,51 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async setReviewReply(resourceId: string, reviewerId: string, reply: string | null): Promise<Rating | undefined> {
+    const [rating] = await db
+      .update(ratings)
+      .set({
+        reply,
+        repliedAt: reply === null ? null : new Date(),
+      })
+      .where(and(eq(ratings.resourceId, resourceId), eq(ratings.userId, reviewerId)))
+      .returning();
+    return rating || undefined;
+  }
+
+  async voteOnReview(insertVote: InsertReviewVote): Promise<ReviewVote> {
+    const [vote] = await db
+      .insert(reviewVotes)
+      .values({
+        ...insertVote,
+        createdAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [reviewVotes.resourceId, reviewVotes.reviewerId, reviewVotes.voterId],
+        set: {
+          helpful: insertVote.helpful,
+          createdAt: new Date(),
+        }
+      })
+      .returning();
+    return vote;
+  }
+
+  async removeReviewVote(resourceId: string, reviewerId: string, voterId: string): Promise<boolean> {
+    const result = await db
+      .delete(reviewVotes)
+      .where(and(
+        eq(reviewVotes.resourceId, resourceId),
+        eq(reviewVotes.reviewerId, reviewerId),
+        eq(reviewVotes.voterId, voterId)
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async updateResourceRatingStats(resourceId: string): Promise<void> {
     const [stats] = await db
       .select({
-        avgRating: sql<number>`AVG(${ratings.rating})`,
+        avgRating: sql<number>`SUM(${ratings.rating} * ${reviewWeight}) / NULLIF(SUM(${reviewWeight}), 0)`,
         ratingCount: sql<number>`COUNT(${ratings.rating})`,
       })
       .from(ratings)
@@ -392,10 +1327,319 @@ export class DatabaseStorage implements IStorage {
       .update(resources)
       .set({
         averageRating: stats.avgRating ? stats.avgRating.toString() : "0",
+        weightedRating: bayesianRating(sql`${resourceId}`),
         ratingCount: stats.ratingCount || 0,
+      })
+      .where(eq(resources.id, resourceId));
+  }
+
+  // Full-table version of updateResourceRatingStats, see server/refreshRatings.ts
+  async refreshRatingStats(): Promise<void> {
+    await db
+      .update(resources)
+      .set({
+        averageRating: sql`COALESCE((
+          SELECT SUM(${ratings.rating} * ${reviewWeight}) / NULLIF(SUM(${reviewWeight}), 0)
+          FROM ${ratings}
+          WHERE ${ratings.resourceId} = ${resources.id}
+        ), 0)`,
+        weightedRating: bayesianRating(sql`${resources.id}`),
+        ratingCount: sql`(SELECT COUNT(*) FROM ${ratings} WHERE ${ratings.resourceId} = ${resources.id})`,
+      });
+  }
+
+  // Comment operations
+  async getComments(resourceId: string, options: {
+    limit?: number;
+    cursor?: Cursor;
+    includeHidden?: boolean;
+  } = {}): Promise<Page<CommentThread>> {
+    const { limit = 20, cursor, includeHidden = false } = options;
+    const whereClause = and(eq(comments.resourceId, resourceId), sql`${comments.threadId} IS NULL`);
+
+    // Deleted comments, and hidden ones for non-admins, keep their place in
+    // the thread but lose their text
+    const body = includeHidden
+      ? sql<string | null>`CASE WHEN ${comments.isDeleted} THEN NULL ELSE ${comments.body} END`
+      : sql<string | null>`CASE WHEN ${comments.isDeleted} OR ${comments.isHidden} THEN NULL ELSE ${comments.body} END`;
+    const { body: _body, hiddenById: _hiddenById, ...publicColumns } = getTableColumns(comments);
+    const commentColumns = {
+      ...publicColumns,
+      body,
+      author: {
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        fullName: users.fullName,
+        profileImageUrl: users.profileImageUrl,
+      },
+    };
+
+    // Top-level comments, newest first
+    const sortKey = sql`${comments.createdAt}`;
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const rows = await db
+      .select({ ...commentColumns, cursorKey: sql<string>`(${sortKey})::text` })
+      .from(comments)
+      .innerJoin(users, eq(users.id, comments.userId))
+      .where(cursor ? and(whereClause, afterCursor(sortKey, sql`${comments.id}`, 'desc', cursor)) : whereClause)
+      .orderBy(desc(sortKey), desc(comments.id))
+      .limit(pageSize + 1);
+
+    const [{ totalCount }] = await db
+      .select({ totalCount: count() })
+      .from(comments)
+      .where(whereClause);
+
+    const hasMore = rows.length > pageSize;
+    const pageRows = rows.slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1];
+
+    // Every reply in the page's threads, oldest first
+    const replies: CommentWithAuthor[] = pageRows.length > 0
+      ? await db
+          .select(commentColumns)
+          .from(comments)
+          .innerJoin(users, eq(users.id, comments.userId))
+          .where(inArray(comments.threadId, pageRows.map(row => row.id)))
+          .orderBy(comments.createdAt, comments.id)
+      : [];
+
+    return {
+      items: pageRows.map(({ cursorKey, ...comment }) => ({
+        ...comment,
+        replies: replies.filter(reply => reply.threadId === comment.id),
+      })),
+      nextCursor: hasMore && last ? encodeCursor([last.cursorKey, last.id]) : null,
+      totalCount,
+    };
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment || undefined;
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    // Replies join their parent's thread
+    let threadId: string | null = null;
+    if (insertComment.parentId) {
+      const parent = await this.getComment(insertComment.parentId);
+      threadId = parent?.threadId ?? parent?.id ?? null;
+    }
+
+    const [comment] = await db
+      .insert(comments)
+      .values({
+        ...insertComment,
+        threadId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .returning();
+    return comment;
+  }
+
+  async updateComment(id: string, body: string): Promise<Comment | undefined> {
+    const existing = await this.getComment(id);
+    if (!existing) return undefined;
+
+    // Keep the text being replaced as edit history
+    await db.insert(commentEdits).values({
+      commentId: id,
+      body: existing.body,
+      editedAt: new Date(),
+    });
+
+    const [comment] = await db
+      .update(comments)
+      .set({
+        body,
+        editedAt: new Date(),
         updatedAt: new Date(),
       })
+      .where(eq(comments.id, id))
+      .returning();
+    return comment || undefined;
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    const result = await db
+      .update(comments)
+      .set({ isDeleted: true, updatedAt: new Date() })
+      .where(eq(comments.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async setCommentHidden(id: string, isHidden: boolean, adminId: string): Promise<Comment | undefined> {
+    const [comment] = await db
+      .update(comments)
+      .set({
+        isHidden,
+        hiddenById: isHidden ? adminId : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(comments.id, id))
+      .returning();
+    return comment || undefined;
+  }
+
+  async getCommentEdits(commentId: string): Promise<CommentEdit[]> {
+    return db
+      .select()
+      .from(commentEdits)
+      .where(eq(commentEdits.commentId, commentId))
+      .orderBy(desc(commentEdits.editedAt));
+  }
+
+  // Near-duplicate operations
+  async setExtractedText(resourceId: string, extractedText: string | null): Promise<void> {
+    await db
+      .update(resources)
+      .set({ extractedText })
       .where(eq(resources.id, resourceId));
+    await this.refreshSearchVector(resourceId);
+  }
+
+  // Replaces the resource's signature and its LSH buckets. An empty signature
+  // records that the resource has too little text to fingerprint
+  async saveFingerprint(resourceId: string, signature: number[]): Promise<void> {
+    await db
+      .insert(resourceFingerprints)
+      .values({ resourceId, minhash: signature, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: resourceFingerprints.resourceId,
+        set: { minhash: signature, createdAt: new Date() },
+      });
+
+    await db.delete(fingerprintBands).where(eq(fingerprintBands.resourceId, resourceId));
+    if (signature.length > 0) {
+      await db.insert(fingerprintBands).values(
+        lshBuckets(signature).map((bucket, band) => ({ resourceId, band, bucket }))
+      );
+    }
+  }
+
+  // Resources with a stored file but no fingerprint yet (or every one with a
+  // stored file when `all` is set), for backfilling
+  async getResourcesWithoutFingerprint(options: { all?: boolean } = {}) {
+    return await db
+      .select({ id: resources.id, storageKey: resources.storageKey, fileType: resources.fileType })
+      .from(resources)
+      .leftJoin(resourceFingerprints, eq(resourceFingerprints.resourceId, resources.id))
+      .where(and(
+        sql`${resources.storageKey} IS NOT NULL`,
+        options.all ? undefined : sql`${resourceFingerprints.resourceId} IS NULL`
+      ))
+      .orderBy(resources.createdAt);
+  }
+
+  // Active resources sharing an LSH bucket with the signature whose estimated
+  // similarity reaches the threshold, most similar first
+  async findNearDuplicates(signature: number[], options: {
+    threshold?: number;
+    limit?: number;
+    excludeResourceId?: string;
+  } = {}): Promise<NearDuplicate[]> {
+    const { threshold = config.nearDuplicateThreshold, limit = 5, excludeResourceId } = options;
+    const buckets = lshBuckets(signature).map((bucket, band) => sql`(${band}::int, ${bucket}::int)`);
+
+    const candidates = await db
+      .selectDistinct({ resourceId: resourceFingerprints.resourceId, minhash: resourceFingerprints.minhash })
+      .from(fingerprintBands)
+      .innerJoin(resourceFingerprints, eq(resourceFingerprints.resourceId, fingerprintBands.resourceId))
+      .innerJoin(resources, eq(resources.id, fingerprintBands.resourceId))
+      .where(and(
+        eq(resources.isActive, true),
+        excludeResourceId ? sql`${resources.id} <> ${excludeResourceId}` : undefined,
+        sql`(${fingerprintBands.band}, ${fingerprintBands.bucket}) IN (${sql.join(buckets, sql`, `)})`
+      ));
+
+    const matches = candidates
+      .map(candidate => ({ id: candidate.resourceId, similarity: estimateSimilarity(signature, candidate.minhash) }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+    if (matches.length === 0) return [];
+
+    const rows = await db.query.resources.findMany({
+      ...duplicateResourceQuery,
+      where: inArray(resources.id, matches.map(match => match.id)),
+    });
+    return matches.flatMap(match => {
+      const row = rows.find(r => r.id === match.id);
+      return row ? [{ ...row, similarity: match.similarity }] : [];
+    });
+  }
+
+  // Clusters of active resources linked by an identical file or by text
+  // similarity at or above the threshold, largest first
+  async getDuplicateClusters(threshold = config.nearDuplicateThreshold): Promise<DuplicateCluster[]> {
+    const bandA = alias(fingerprintBands, "band_a");
+    const bandB = alias(fingerprintBands, "band_b");
+    const resourceA = alias(resources, "resource_a");
+    const resourceB = alias(resources, "resource_b");
+
+    // Pairs sharing any LSH bucket are candidates; their signatures decide
+    const candidatePairs = await db
+      .selectDistinct({ first: bandA.resourceId, second: bandB.resourceId })
+      .from(bandA)
+      .innerJoin(bandB, and(
+        eq(bandA.band, bandB.band),
+        eq(bandA.bucket, bandB.bucket),
+        sql`${bandA.resourceId} < ${bandB.resourceId}`
+      ))
+      .innerJoin(resourceA, and(eq(resourceA.id, bandA.resourceId), eq(resourceA.isActive, true)))
+      .innerJoin(resourceB, and(eq(resourceB.id, bandB.resourceId), eq(resourceB.isActive, true)));
+
+    const identicalPairs = await db
+      .select({ first: resourceA.id, second: resourceB.id })
+      .from(resourceA)
+      .innerJoin(resourceB, and(
+        eq(resourceA.contentHash, resourceB.contentHash),
+        sql`${resourceA.id} < ${resourceB.id}`
+      ))
+      .where(and(eq(resourceA.isActive, true), eq(resourceB.isActive, true)));
+
+    const candidateIds = Array.from(new Set(candidatePairs.flatMap(pair => [pair.first, pair.second])));
+    const signatures = new Map<string, number[]>();
+    if (candidateIds.length > 0) {
+      const fingerprints = await db
+        .select()
+        .from(resourceFingerprints)
+        .where(inArray(resourceFingerprints.resourceId, candidateIds));
+      for (const fingerprint of fingerprints) {
+        signatures.set(fingerprint.resourceId, fingerprint.minhash);
+      }
+    }
+
+    const pairs = new Map<string, { resourceIds: [string, string]; similarity: number }>();
+    for (const { first, second } of candidatePairs) {
+      const similarity = estimateSimilarity(signatures.get(first) ?? [], signatures.get(second) ?? []);
+      if (similarity >= threshold) {
+        pairs.set(`${first}:${second}`, { resourceIds: [first, second], similarity });
+      }
+    }
+    for (const { first, second } of identicalPairs) {
+      pairs.set(`${first}:${second}`, { resourceIds: [first, second], similarity: 1 });
+    }
+    if (pairs.size === 0) return [];
+
+    const linked = Array.from(pairs.values());
+    const clusters = clusterPairs(linked.map(pair => pair.resourceIds));
+    const rows = await db.query.resources.findMany({
+      ...duplicateResourceQuery,
+      where: inArray(resources.id, clusters.flat()),
+      orderBy: [resources.createdAt],
+    });
+
+    return clusters
+      .map(ids => ({
+        resources: rows.filter(row => ids.includes(row.id)),
+        pairs: linked.filter(pair => ids.includes(pair.resourceIds[0])),
+      }))
+      .sort((a, b) => b.resources.length - a.resources.length);
   }
 
   // Tag operations
@@ -441,12 +1685,16 @@ export class DatabaseStorage implements IStorage {
         createdAt: new Date(),
       })
       .onConflictDoNothing();
+
+    await this.refreshSearchVector(resourceId);
   }
 
   async removeTagFromResource(resourceId: string, tagId: string): Promise<void> {
     await db
       .delete(resourceTags)
       .where(and(eq(resourceTags.resourceId, resourceId), eq(resourceTags.tagId, tagId)));
+
+    await this.refreshSearchVector(resourceId);
   }
 
   async getTagsForResource(resourceId: string): Promise<Tag[]> {
@@ -468,14 +1716,43 @@ export class DatabaseStorage implements IStorage {
     return favorite || undefined;
   }
 
-  async getUserFavorites(userId: string): Promise<Resource[]> {
+  async getUserFavorites(userId: string, options: { limit?: number; cursor?: Cursor } = {}): Promise<Page<ResourceListItem>> {
+    const { limit = 50, cursor } = options;
+    const whereClause = and(eq(favorites.userId, userId), eq(resources.isActive, true));
+
+    // Most recently favorited first
+    const sortKey = sql`${favorites.createdAt}`;
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
     const result = await db
-      .select({ resource: resources })
+      .select({
+        ...listItemColumns(),
+        snippet: sql<string | null>`NULL`,
+        cursorKey: sql<string>`(${sortKey})::text`,
+      })
       .from(favorites)
       .innerJoin(resources, eq(favorites.resourceId, resources.id))
-      .where(and(eq(favorites.userId, userId), eq(resources.isActive, true)));
-    
-    return result.map(row => row.resource);
+      .innerJoin(users, eq(users.id, resources.uploadedById))
+      .leftJoin(viewerFavorites, viewerFavoriteJoin(userId))
+      .leftJoin(viewerRatings, viewerRatingJoin(userId))
+      .where(cursor ? and(whereClause, afterCursor(sortKey, sql`${resources.id}`, 'desc', cursor)) : whereClause)
+      .orderBy(desc(sortKey), desc(resources.id))
+      .limit(pageSize + 1);
+
+    const [{ totalCount }] = await db
+      .select({ totalCount: count() })
+      .from(favorites)
+      .innerJoin(resources, eq(favorites.resourceId, resources.id))
+      .where(whereClause);
+
+    const hasMore = result.length > pageSize;
+    const pageRows = result.slice(0, pageSize);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      items: pageRows.map(({ cursorKey, ...item }) => item),
+      nextCursor: hasMore && last ? encodeCursor([last.cursorKey, last.id]) : null,
+      totalCount,
+    };
   }
 
   async addFavorite(insertFavorite: InsertFavorite): Promise<Favorite> {
@@ -497,6 +1774,40 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Saved search operations
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(savedSearches.name);
+  }
+
+  async saveSearch(insertSavedSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [savedSearch] = await db
+      .insert(savedSearches)
+      .values({
+        ...insertSavedSearch,
+        createdAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: [savedSearches.userId, savedSearches.name],
+        set: {
+          query: insertSavedSearch.query,
+          createdAt: new Date(),
+        }
+      })
+      .returning();
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Stats operations
   async getDashboardStats(): Promise<{
     totalResources: number;
@@ -507,7 +1818,7 @@ export class DatabaseStorage implements IStorage {
     const [resourceStats] = await db
       .select({
         totalResources: sql<number>`COUNT(*)`,
-        totalDownloads: sql<number>`SUM(${resources.downloadCount})`,
+        totalDownloads: sql<number>`SUM(${resources.uniqueDownloadCount})`,
         averageRating: sql<number>`AVG(${resources.averageRating})`,
       })
       .from(resources)
@@ -536,7 +1847,7 @@ export class DatabaseStorage implements IStorage {
     const [stats] = await db
       .select({
         uploadedCount: sql<number>`COUNT(*)`,
-        totalDownloads: sql<number>`SUM(${resources.downloadCount})`,
+        totalDownloads: sql<number>`SUM(${resources.uniqueDownloadCount})`,
         averageRating: sql<number>`AVG(${resources.averageRating})`,
       })
       .from(resources)
@@ -562,7 +1873,7 @@ export class DatabaseStorage implements IStorage {
   
   async getAllResources(): Promise<Resource[]> {
     try {
-      const allResources = await db.select().from(resources).orderBy(desc(resources.createdAt));
+      const allResources = await db.select(resourceColumns).from(resources).orderBy(desc(resources.createdAt));
       return allResources;
     } catch (error) {
       console.error('Error getting all resources:', error);
@@ -584,7 +1895,7 @@ export class DatabaseStorage implements IStorage {
       const [inactiveResourcesResult] = await db.select({ count: count() }).from(resources).where(eq(resources.isActive, false));
       
       const [downloadSumResult] = await db
-        .select({ sum: sql<number>`COALESCE(SUM(${resources.downloadCount}), 0)` })
+        .select({ sum: sql<number>`COALESCE(SUM(${resources.uniqueDownloadCount}), 0)` })
         .from(resources);
       
       const [avgRatingResult] = await db
@@ -628,6 +1939,7 @@ export class DatabaseStorage implements IStorage {
     resourceCount: number;
     totalDownloads: number;
     averageRating: number;
+    weightedRating: number;
     joinedAt: string;
   }[]> {
     try {
@@ -638,8 +1950,9 @@ export class DatabaseStorage implements IStorage {
           firstName: users.firstName,
           lastName: users.lastName,
           resourceCount: sql<number>`COUNT(${resources.id})`,
-          totalDownloads: sql<number>`COALESCE(SUM(${resources.downloadCount}), 0)`,
+          totalDownloads: sql<number>`COALESCE(SUM(${resources.uniqueDownloadCount}), 0)`,
           averageRating: sql<number>`COALESCE(AVG(${resources.averageRating}), 0)`,
+          weightedRating: sql<number>`COALESCE(AVG(${resources.weightedRating}), 0)`,
           joinedAt: users.createdAt,
         })
         .from(users)
@@ -650,8 +1963,8 @@ export class DatabaseStorage implements IStorage {
         .groupBy(users.id, users.username, users.firstName, users.lastName, users.createdAt)
         .orderBy(
           sql`COUNT(${resources.id}) DESC`,
-          sql`COALESCE(SUM(${resources.downloadCount}), 0) DESC`,
-          sql`COALESCE(AVG(${resources.averageRating}), 0) DESC`
+          sql`COALESCE(SUM(${resources.uniqueDownloadCount}), 0) DESC`,
+          sql`COALESCE(AVG(${resources.weightedRating}), 0) DESC`
         );
 
       return contributors
@@ -663,7 +1976,8 @@ export class DatabaseStorage implements IStorage {
           lastName: contributor.lastName || undefined,
           resourceCount: contributor.resourceCount || 0,
           totalDownloads: contributor.totalDownloads || 0,
-          averageRating: Number((contributor.averageRating || 0).toFixed(2)),
+          averageRating: Number(Number(contributor.averageRating || 0).toFixed(2)),
+          weightedRating: Number(Number(contributor.weightedRating || 0).toFixed(2)),
           joinedAt: contributor.joinedAt?.toISOString() || new Date().toISOString(),
         }));
     } catch (error) {
@@ -673,22 +1987,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Trending operations
-  async getTrendingResources(timeframe: 'week' | 'month' | 'all' = 'week') {
-    let dateFilter;
-    const now = new Date();
-    
-    switch (timeframe) {
-      case 'week':
-        dateFilter = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        dateFilter = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case 'all':
-      default:
-        dateFilter = new Date(0); // Beginning of time
-        break;
-    }
+  // Resources are ranked by their time-decayed activity within the timeframe
+  // (any age for all-time), whenever they were uploaded. Growth compares the
+  // window's downloads against the window before
+  async getTrendingResources(timeframe: TrendingTimeframe = 'week', viewerId?: string) {
+    const windows = trendingWindows(timeframe);
+    const score = trendingScore(windows?.start);
+    const recentDownloads = windows
+      ? downloadsBetween(windows.start)
+      : sql<number>`COALESCE(${resources.uniqueDownloadCount}, 0)`;
+    const previousDownloads = windows
+      ? downloadsBetween(windows.previousStart, windows.start)
+      : sql<number>`0`;
 
     const results = await db
       .select({
@@ -697,7 +2007,7 @@ export class DatabaseStorage implements IStorage {
         description: resources.description,
         subject: resources.subject,
         fileType: resources.fileType,
-        downloadCount: resources.downloadCount,
+        downloadCount: resources.uniqueDownloadCount,
         averageRating: resources.averageRating,
         ratingCount: resources.ratingCount,
         uploadedAt: resources.createdAt,
@@ -705,23 +2015,29 @@ export class DatabaseStorage implements IStorage {
         uploaderUsername: users.username,
         uploaderFirstName: users.firstName,
         uploaderLastName: users.lastName,
+        tags: listItemColumns().tags,
+        isFavorited: listItemColumns().isFavorited,
+        userRating: listItemColumns().userRating,
+        recentDownloads,
+        previousDownloads,
+        score,
       })
       .from(resources)
       .innerJoin(users, eq(resources.uploadedById, users.id))
+      .leftJoin(viewerFavorites, viewerFavoriteJoin(viewerId))
+      .leftJoin(viewerRatings, viewerRatingJoin(viewerId))
       .where(
         and(
           eq(resources.isActive, true),
-          gte(resources.createdAt, dateFilter)
+          windows ? sql`${score} > 0` : undefined
         )
       )
-      .orderBy(
-        desc(sql`(
-          ${resources.downloadCount} * 0.4 + 
-          CAST(${resources.averageRating} AS DECIMAL) * ${resources.ratingCount} * 0.6
-        )`)
-      )
+      .orderBy(desc(score), desc(resources.uniqueDownloadCount), desc(resources.id))
       .limit(10);
 
+    // Scores are shown relative to the top resource, which gets 100
+    const topScore = results.length > 0 ? parseFloat(results[0].score) : 0;
+
     return results.map(result => ({
       id: result.id,
       title: result.title,
@@ -737,53 +2053,63 @@ export class DatabaseStorage implements IStorage {
         firstName: result.uploaderFirstName || undefined,
         lastName: result.uploaderLastName || undefined,
       },
-      trendingScore: Math.min(100, Math.floor(
-        (result.downloadCount || 0) * 0.4 + 
-        parseFloat(result.averageRating || '0') * (result.ratingCount || 0) * 0.6
-      )),
-      growthRate: Math.floor(Math.random() * 50) + 20, // Simplified growth calculation
+      tags: result.tags,
+      isFavorited: result.isFavorited,
+      userRating: result.userRating,
+      recentDownloads: result.recentDownloads,
+      trendingScore: topScore > 0 ? Math.round((parseFloat(result.score) / topScore) * 100) : 0,
+      growthRate: windows ? growthRate(result.recentDownloads, result.previousDownloads) : null,
     }));
   }
 
-  async getTrendingSubjects(timeframe: 'week' | 'month' | 'all' = 'week') {
-    let dateFilter;
-    const now = new Date();
-    
-    switch (timeframe) {
-      case 'week':
-        dateFilter = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        dateFilter = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case 'all':
-      default:
-        dateFilter = new Date(0);
-        break;
+  async getTrendingSubjects(timeframe: TrendingTimeframe = 'week') {
+    const windows = trendingWindows(timeframe);
+
+    if (!windows) {
+      const results = await db
+        .select({
+          subject: resources.subject,
+          resourceCount: sql<number>`COUNT(*)::int`,
+          totalDownloads: sql<number>`COALESCE(SUM(${resources.uniqueDownloadCount}), 0)::int`,
+        })
+        .from(resources)
+        .where(eq(resources.isActive, true))
+        .groupBy(resources.subject)
+        .orderBy(desc(sql`SUM(${resources.uniqueDownloadCount})`))
+        .limit(5);
+
+      return results.map(result => ({ ...result, growthRate: null }));
     }
 
+    // Both windows are counted in one pass over the unique download events
+    // since previousStart
+    const totalDownloads = sql<number>`(COUNT(*) FILTER (WHERE ${gte(downloadEvents.createdAt, windows.start)}))::int`;
     const results = await db
       .select({
         subject: resources.subject,
-        resourceCount: sql<number>`COUNT(*)`,
-        totalDownloads: sql<number>`SUM(${resources.downloadCount})`,
+        resourceCount: sql<number>`COUNT(DISTINCT ${resources.id}) FILTER (WHERE ${gte(downloadEvents.createdAt, windows.start)})::int`,
+        totalDownloads,
+        previousDownloads: sql<number>`(COUNT(*) FILTER (WHERE ${lt(downloadEvents.createdAt, windows.start)}))::int`,
       })
-      .from(resources)
+      .from(downloadEvents)
+      .innerJoin(resources, eq(downloadEvents.resourceId, resources.id))
       .where(
         and(
           eq(resources.isActive, true),
-          gte(resources.createdAt, dateFilter)
+          eq(downloadEvents.counted, true),
+          gte(downloadEvents.createdAt, windows.previousStart)
         )
       )
       .groupBy(resources.subject)
-      .orderBy(desc(sql<number>`SUM(${resources.downloadCount})`))
+      .having(sql`${totalDownloads} > 0`)
+      .orderBy(desc(totalDownloads))
       .limit(5);
 
     return results.map(result => ({
       subject: result.subject,
-      resourceCount: result.resourceCount || 0,
-      totalDownloads: result.totalDownloads || 0,
-      growthRate: Math.floor(Math.random() * 50) + 10, // Simplified growth calculation
+      resourceCount: result.resourceCount,
+      totalDownloads: result.totalDownloads,
+      growthRate: growthRate(result.totalDownloads, result.previousDownloads),
     }));
   }
 }
@@ -0,0 +1,67 @@
+// Deletes content-addressed files that no resource references, e.g. left
+// behind by an upload that failed after storing its file. Uploads never
+// delete shared objects themselves, since another upload of the same bytes
+// may be about to use them.
+//
+//   npm run files:sweep                  delete unreferenced files
+//   npm run files:sweep -- --dry-run     only list them
+//
+// Files written in the last GRACE_PERIOD_HOURS are kept, so an upload that
+// has stored its file but not yet created its resource is left alone. Uploads
+// rewrite existing files, and each file's age and references are checked
+// again right before it is deleted, in case an upload reused it meanwhile.
+import { pool } from "./db";
+import { storage } from "./storage";
+import { fileStore, CONTENT_KEY_PREFIX, type StoredObject } from "./fileStore";
+
+const GRACE_PERIOD_HOURS = 24;
+const BATCH_SIZE = 500;
+
+const dryRun = process.argv.slice(2).includes('--dry-run');
+
+// Whether the file is still unreferenced and was last written before cutoff
+async function stillOrphaned(key: string, cutoff: number): Promise<boolean> {
+  const lastModified = await fileStore.lastModified(key);
+  if (!lastModified || lastModified.getTime() > cutoff) return false;
+  const referenced = await storage.getReferencedStorageKeys([key]);
+  return !referenced.has(key);
+}
+
+async function sweep(batch: StoredObject[], cutoff: number): Promise<number> {
+  const referenced = await storage.getReferencedStorageKeys(batch.map(object => object.key));
+  let swept = 0;
+  for (const { key } of batch) {
+    if (referenced.has(key) || !(await stillOrphaned(key, cutoff))) continue;
+    console.log(`${dryRun ? 'Would delete' : 'Deleting'} ${key}`);
+    if (!dryRun) await fileStore.delete(key);
+    swept++;
+  }
+  return swept;
+}
+
+async function main() {
+  const cutoff = Date.now() - GRACE_PERIOD_HOURS * 60 * 60 * 1000;
+  let scanned = 0;
+  let swept = 0;
+  let batch: StoredObject[] = [];
+
+  for await (const object of fileStore.list(CONTENT_KEY_PREFIX)) {
+    scanned++;
+    if (object.lastModified.getTime() > cutoff) continue;
+    batch.push(object);
+    if (batch.length === BATCH_SIZE) {
+      swept += await sweep(batch, cutoff);
+      batch = [];
+    }
+  }
+  swept += await sweep(batch, cutoff);
+
+  console.log(`Scanned ${scanned} file(s), ${dryRun ? 'found' : 'deleted'} ${swept} unreferenced`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Sweep failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
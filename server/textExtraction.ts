@@ -0,0 +1,50 @@
+import { extractText as extractPdfText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import { fileTypeByMimeType } from "@shared/fileTypes";
+
+// Long documents are cut off here; it is plenty for search and fingerprints
+const MAX_EXTRACTED_CHARS = 200_000;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const NOTEBOOK_TYPE = 'application/x-ipynb+json';
+
+// Plain-text formats (text, markdown, CSV, code) are used as they are
+function isPlainText(mimeType: string): boolean {
+  return fileTypeByMimeType(mimeType)?.container === 'text';
+}
+
+export function canExtractText(mimeType: string): boolean {
+  return mimeType === 'application/pdf' || mimeType === DOCX_TYPE || mimeType === NOTEBOOK_TYPE ||
+    isPlainText(mimeType);
+}
+
+// Markdown and code cells of a Jupyter notebook, without outputs
+function notebookText(data: Buffer): string {
+  const notebook = JSON.parse(data.toString('utf8').replace(/^\uFEFF/, ''));
+  const cells: { source?: string | string[] }[] = Array.isArray(notebook.cells) ? notebook.cells : [];
+  return cells
+    .map(cell => Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '')
+    .join('\n');
+}
+
+// Plain text of a supported upload, or undefined for other types and for
+// files that yield no text (e.g. scanned PDFs without a text layer)
+export async function extractText(data: Buffer, mimeType: string): Promise<string | undefined> {
+  let text: string;
+  if (mimeType === 'application/pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    ({ text } = await extractPdfText(pdf, { mergePages: true }));
+  } else if (mimeType === DOCX_TYPE) {
+    ({ value: text } = await mammoth.extractRawText({ buffer: data }));
+  } else if (mimeType === NOTEBOOK_TYPE) {
+    text = notebookText(data);
+  } else if (isPlainText(mimeType)) {
+    text = data.toString('utf8');
+  } else {
+    return undefined;
+  }
+
+  // Postgres text cannot hold NUL bytes, which some PDFs produce
+  const normalized = text.replace(/\u0000/g, '').replace(/\s+/g, ' ').trim();
+  return normalized ? normalized.slice(0, MAX_EXTRACTED_CHARS) : undefined;
+}
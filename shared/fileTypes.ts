@@ -0,0 +1,161 @@
+// The file types resources can be uploaded as. The server's upload checks,
+// the browse filters and the file icons are all derived from this list.
+
+export type FileTypeFamily =
+  | 'pdf'
+  | 'doc'
+  | 'presentation'
+  | 'spreadsheet'
+  | 'image'
+  | 'text'
+  | 'code'
+  | 'archive';
+
+// Families in the order the browse filters offer them
+export const FILE_TYPE_FAMILIES: { id: FileTypeFamily; label: string }[] = [
+  { id: 'pdf', label: 'PDF' },
+  { id: 'doc', label: 'Word Documents' },
+  { id: 'presentation', label: 'Presentations' },
+  { id: 'spreadsheet', label: 'Spreadsheets' },
+  { id: 'image', label: 'Images' },
+  { id: 'text', label: 'Text & Markdown' },
+  { id: 'code', label: 'Code & Notebooks' },
+  { id: 'archive', label: 'Archives' },
+];
+
+// How the content of an upload is recognized, see server/fileValidation.ts
+export type FileContainer = 'pdf' | 'png' | 'jpeg' | 'zip' | 'cfb' | 'text' | 'json';
+
+export interface FileTypeDefinition {
+  mimeType: string; // Canonical type, stored as the resource's fileType
+  aliases?: string[]; // Other MIME types browsers report for it
+  extensions: string[];
+  family: FileTypeFamily;
+  container: FileContainer;
+  // Required part of the container: an entry name for zip, a stream name for
+  // cfb (OLE compound file) and a top-level key for json
+  marker?: string;
+  previewable?: boolean; // Shown inline on the resource page
+}
+
+const code = (mimeType: string, extensions: string[], aliases?: string[]): FileTypeDefinition => ({
+  mimeType,
+  aliases,
+  extensions,
+  family: 'code',
+  container: 'text',
+});
+
+export const FILE_TYPES: FileTypeDefinition[] = [
+  { mimeType: 'application/pdf', extensions: ['pdf'], family: 'pdf', container: 'pdf', previewable: true },
+  { mimeType: 'application/msword', extensions: ['doc'], family: 'doc', container: 'cfb', marker: 'WordDocument' },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extensions: ['docx'],
+    family: 'doc',
+    container: 'zip',
+    marker: 'word/document.xml',
+  },
+  {
+    mimeType: 'application/vnd.ms-powerpoint',
+    extensions: ['ppt'],
+    family: 'presentation',
+    container: 'cfb',
+    marker: 'PowerPoint Document',
+  },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    extensions: ['pptx'],
+    family: 'presentation',
+    container: 'zip',
+    marker: 'ppt/presentation.xml',
+  },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extensions: ['xlsx'],
+    family: 'spreadsheet',
+    container: 'zip',
+    marker: 'xl/workbook.xml',
+  },
+  {
+    mimeType: 'text/csv',
+    aliases: ['application/csv', 'text/comma-separated-values'],
+    extensions: ['csv'],
+    family: 'spreadsheet',
+    container: 'text',
+  },
+  {
+    mimeType: 'image/jpeg',
+    aliases: ['image/jpg', 'image/pjpeg'],
+    extensions: ['jpg', 'jpeg'],
+    family: 'image',
+    container: 'jpeg',
+    previewable: true,
+  },
+  { mimeType: 'image/png', aliases: ['image/x-png'], extensions: ['png'], family: 'image', container: 'png', previewable: true },
+  { mimeType: 'text/plain', extensions: ['txt'], family: 'text', container: 'text' },
+  { mimeType: 'text/markdown', aliases: ['text/x-markdown'], extensions: ['md', 'markdown'], family: 'text', container: 'text' },
+  {
+    mimeType: 'application/x-ipynb+json',
+    extensions: ['ipynb'],
+    family: 'code',
+    container: 'json',
+    marker: 'cells',
+  },
+  code('text/x-python', ['py'], ['text/x-python-script', 'application/x-python-code']),
+  code('text/javascript', ['js', 'mjs', 'cjs', 'jsx'], ['application/javascript', 'application/x-javascript']),
+  code('text/x-typescript', ['ts', 'tsx'], ['application/typescript']),
+  code('text/x-java', ['java'], ['text/x-java-source']),
+  code('text/x-c', ['c', 'h'], ['text/x-csrc', 'text/x-chdr']),
+  code('text/x-c++', ['cpp', 'cc', 'cxx', 'hpp'], ['text/x-c++src', 'text/x-c++hdr']),
+  code('text/x-csharp', ['cs']),
+  code('text/x-go', ['go']),
+  code('text/x-rust', ['rs']),
+  code('text/x-ruby', ['rb'], ['application/x-ruby']),
+  code('text/x-php', ['php'], ['application/x-httpd-php']),
+  code('text/x-kotlin', ['kt']),
+  code('text/x-swift', ['swift']),
+  code('text/x-r', ['r']),
+  code('text/x-sql', ['sql'], ['application/sql']),
+  code('text/x-shellscript', ['sh'], ['application/x-sh']),
+  code('text/html', ['html', 'htm']),
+  code('text/css', ['css']),
+  { mimeType: 'application/json', extensions: ['json'], family: 'code', container: 'json' },
+  {
+    mimeType: 'application/zip',
+    aliases: ['application/x-zip-compressed', 'application/x-zip'],
+    extensions: ['zip'],
+    family: 'archive',
+    container: 'zip',
+  },
+];
+
+// For the file input's accept attribute, e.g. ".pdf,.doc,.docx"
+export const ACCEPTED_FILE_EXTENSIONS = FILE_TYPES
+  .flatMap(type => type.extensions.map(extension => `.${extension}`))
+  .join(',');
+
+// Definition for a canonical or alias MIME type (parameters such as
+// "; charset=utf-8" are ignored)
+export function fileTypeByMimeType(mimeType: string): FileTypeDefinition | undefined {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return FILE_TYPES.find(type => type.mimeType === base || type.aliases?.includes(base));
+}
+
+export function fileTypeByExtension(extension: string): FileTypeDefinition | undefined {
+  const normalized = extension.replace(/^\./, '').toLowerCase();
+  return FILE_TYPES.find(type => type.extensions.includes(normalized));
+}
+
+export function fileTypeByFileName(fileName: string): FileTypeDefinition | undefined {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? undefined : fileTypeByExtension(fileName.slice(dot + 1));
+}
+
+export function fileTypeFamily(mimeType: string): FileTypeFamily | 'other' {
+  return fileTypeByMimeType(mimeType)?.family ?? 'other';
+}
+
+export function isPreviewable(mimeType: string): boolean {
+  return fileTypeByMimeType(mimeType)?.previewable === true;
+}
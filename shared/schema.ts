@@ -9,11 +9,22 @@ import {
   boolean,
   primaryKey,
   jsonb,
-  index
+  index,
+  uniqueIndex,
+  foreignKey,
+  customType,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Postgres full-text search document (no built-in drizzle type)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Session storage table for Replit Auth
 export const sessions = pgTable(
   "sessions",
@@ -51,15 +62,34 @@ export const resources = pgTable("resources", {
   fileType: text("file_type").notNull(),
   fileName: text("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
-  filePath: text("file_path").notNull(),
+  // Key of the file in the configured file store (server/fileStore.ts).
+  // Files are stored by content, so identical uploads share one key
+  storageKey: text("storage_key"),
+  contentHash: varchar("content_hash", { length: 64 }), // Hex SHA-256 of the file
+  // Absolute path from before the file store; moved to storageKey by `npm run files:migrate`
+  filePath: text("file_path"),
   uploadedById: varchar("uploaded_by_id").references(() => users.id).notNull(),
-  downloadCount: integer("download_count").default(0),
+  downloadCount: integer("download_count").default(0), // Every download request
+  // Downloads counted at most once per user per config.downloadDedupeWindowHours,
+  // used for rankings and stats so repeat downloads cannot inflate them
+  uniqueDownloadCount: integer("unique_download_count").default(0),
   averageRating: decimal("average_rating", { precision: 3, scale: 2 }).default("0"),
+  // Bayesian average used for ranking, maintained by storage.updateResourceRatingStats
+  weightedRating: decimal("weighted_rating", { precision: 3, scale: 2 }).default("0"),
   ratingCount: integer("rating_count").default(0),
   isActive: boolean("is_active").default(true),
+  // Weighted title/subject/tags/description/file text document, maintained by storage.refreshSearchVector
+  searchVector: tsvector("search_vector"),
+  extractedText: text("extracted_text"), // Plain text of document, notebook and text uploads (server/textExtraction.ts)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  searchIdx: index("IDX_resources_search").using("gin", table.searchVector),
+  // Trigram indexes (pg_trgm) for fuzzy matching and substring suggestions
+  titleTrgmIdx: index("IDX_resources_title_trgm").using("gin", table.title.op("gin_trgm_ops")),
+  subjectTrgmIdx: index("IDX_resources_subject_trgm").using("gin", table.subject.op("gin_trgm_ops")),
+  contentHashIdx: index("IDX_resources_content_hash").on(table.contentHash),
+}));
 
 // Ratings table
 export const ratings = pgTable("ratings", {
@@ -67,6 +97,10 @@ export const ratings = pgTable("ratings", {
   userId: varchar("user_id").references(() => users.id).notNull(),
   rating: integer("rating").notNull(), // 1-5 stars
   review: text("review"),
+  verified: boolean("verified").default(false).notNull(), // Rater has downloaded the resource
+  // The uploader's single public answer to this review
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"), // Last time the reply was written or edited
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -74,12 +108,105 @@ export const ratings = pgTable("ratings", {
   pk: primaryKey({ columns: [table.resourceId, table.userId] }),
 }));
 
+// Download events table - one row per download, so we know who downloaded what and when
+export const downloadEvents = pgTable("download_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  resourceId: varchar("resource_id").references(() => resources.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  // False for a repeat by the same user within the dedupe window
+  counted: boolean("counted").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  resourceUserIdx: index("IDX_download_events_resource_user").on(table.resourceId, table.userId),
+  // Trending counts scan events by time window
+  createdAtIdx: index("IDX_download_events_created_at").on(table.createdAt),
+}));
+
+// Resource fingerprints table - MinHash signature of a resource's extracted
+// text (server/fingerprint.ts), for near-duplicate detection. An empty
+// signature marks a resource with too little text, so backfills skip it
+export const resourceFingerprints = pgTable("resource_fingerprints", {
+  resourceId: varchar("resource_id").primaryKey().references(() => resources.id),
+  minhash: integer("minhash").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Fingerprint bands table - the LSH buckets of each signature, indexed so
+// resources sharing a bucket are found without comparing every signature
+export const fingerprintBands = pgTable("fingerprint_bands", {
+  resourceId: varchar("resource_id").references(() => resources.id).notNull(),
+  band: integer("band").notNull(),
+  bucket: integer("bucket").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.resourceId, table.band] }),
+  bucketIdx: index("IDX_fingerprint_bands_bucket").on(table.band, table.bucket),
+}));
+
+// Review votes table - readers marking a review (a rating with its
+// reviewer) as helpful or not
+export const reviewVotes = pgTable("review_votes", {
+  resourceId: varchar("resource_id").notNull(),
+  reviewerId: varchar("reviewer_id").notNull(),
+  voterId: varchar("voter_id").references(() => users.id).notNull(),
+  helpful: boolean("helpful").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // One vote per reader per review
+  pk: primaryKey({ columns: [table.resourceId, table.reviewerId, table.voterId] }),
+  reviewFk: foreignKey({
+    columns: [table.resourceId, table.reviewerId],
+    foreignColumns: [ratings.resourceId, ratings.userId],
+  }),
+}));
+
+// Comments table - question/discussion threads on a resource. Replies point
+// at their parent; threadId is the top-level comment of the thread (null for
+// top-level comments themselves) so a whole thread loads in one query.
+export const comments = pgTable("comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  resourceId: varchar("resource_id").references(() => resources.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => comments.id),
+  threadId: varchar("thread_id").references((): AnyPgColumn => comments.id),
+  body: text("body").notNull(),
+  isDeleted: boolean("is_deleted").default(false).notNull(), // Soft delete by the author
+  isHidden: boolean("is_hidden").default(false).notNull(), // Hidden by an admin
+  hiddenById: varchar("hidden_by_id").references(() => users.id),
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  resourceIdx: index("IDX_comments_resource").on(table.resourceId, table.createdAt),
+  threadIdx: index("IDX_comments_thread").on(table.threadId),
+}));
+
+// Comment edits table - the previous text of a comment each time it is edited
+export const commentEdits = pgTable("comment_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  commentId: varchar("comment_id").references(() => comments.id).notNull(),
+  body: text("body").notNull(),
+  editedAt: timestamp("edited_at").defaultNow(),
+}, (table) => ({
+  commentIdx: index("IDX_comment_edits_comment").on(table.commentId),
+}));
+
 // Tags table
 export const tags = pgTable("tags", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  nameTrgmIdx: index("IDX_tags_name_trgm").using("gin", table.name.op("gin_trgm_ops")),
+}));
+
+// Search terms table - distinct words of resource titles, subjects and tag
+// names, the vocabulary for "did you mean" suggestions. Words are added as
+// resources change and never removed, so it may hold a few stale ones
+export const searchTerms = pgTable("search_terms", {
+  term: text("term").primaryKey(),
+}, (table) => ({
+  termTrgmIdx: index("IDX_search_terms_trgm").using("gin", table.term.op("gin_trgm_ops")),
+}));
 
 // Resource-Tags junction table
 export const resourceTags = pgTable("resource_tags", {
@@ -100,11 +227,26 @@ export const favorites = pgTable("favorites", {
   pk: primaryKey({ columns: [table.userId, table.resourceId] }),
 }));
 
+// Saved searches table - named browse filter sets
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  query: text("query").notNull(), // Browse page query string, e.g. "subject=Physics&rating=4"
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  // Saving under an existing name replaces that search
+  userNameIdx: uniqueIndex("IDX_saved_searches_user_name").on(table.userId, table.name),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   resources: many(resources),
   ratings: many(ratings),
   favorites: many(favorites),
+  savedSearches: many(savedSearches),
+  downloadEvents: many(downloadEvents),
+  comments: many(comments),
 }));
 
 export const resourcesRelations = relations(resources, ({ one, many }) => ({
@@ -115,9 +257,11 @@ export const resourcesRelations = relations(resources, ({ one, many }) => ({
   ratings: many(ratings),
   resourceTags: many(resourceTags),
   favorites: many(favorites),
+  downloadEvents: many(downloadEvents),
+  comments: many(comments),
 }));
 
-export const ratingsRelations = relations(ratings, ({ one }) => ({
+export const ratingsRelations = relations(ratings, ({ one, many }) => ({
   resource: one(resources, {
     fields: [ratings.resourceId],
     references: [resources.id],
@@ -126,6 +270,48 @@ export const ratingsRelations = relations(ratings, ({ one }) => ({
     fields: [ratings.userId],
     references: [users.id],
   }),
+  votes: many(reviewVotes),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  resource: one(resources, {
+    fields: [comments.resourceId],
+    references: [resources.id],
+  }),
+  author: one(users, {
+    fields: [comments.userId],
+    references: [users.id],
+  }),
+  edits: many(commentEdits),
+}));
+
+export const commentEditsRelations = relations(commentEdits, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentEdits.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const downloadEventsRelations = relations(downloadEvents, ({ one }) => ({
+  resource: one(resources, {
+    fields: [downloadEvents.resourceId],
+    references: [resources.id],
+  }),
+  user: one(users, {
+    fields: [downloadEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewVotesRelations = relations(reviewVotes, ({ one }) => ({
+  review: one(ratings, {
+    fields: [reviewVotes.resourceId, reviewVotes.reviewerId],
+    references: [ratings.resourceId, ratings.userId],
+  }),
+  voter: one(users, {
+    fields: [reviewVotes.voterId],
+    references: [users.id],
+  }),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -154,6 +340,13 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   }),
 }));
 
+export const savedSearchesRelations = relations(savedSearches, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+}));
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -163,7 +356,10 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
-export const insertResourceSchema = createInsertSchema(resources).pick({
+export const insertResourceSchema = createInsertSchema(resources, {
+  storageKey: z.string().min(1),
+  contentHash: z.string().regex(/^[0-9a-f]{64}$/),
+}).pick({
   title: true,
   description: true,
   subject: true,
@@ -171,17 +367,42 @@ export const insertResourceSchema = createInsertSchema(resources).pick({
   fileType: true,
   fileName: true,
   fileSize: true,
-  filePath: true,
+  storageKey: true,
+  contentHash: true,
+  extractedText: true,
   uploadedById: true,
 });
 
-export const insertRatingSchema = createInsertSchema(ratings).pick({
+export const insertRatingSchema = createInsertSchema(ratings, {
+  rating: (schema) => schema.int().min(1).max(5),
+  review: (schema) => schema.max(5000),
+}).pick({
   resourceId: true,
   userId: true,
   rating: true,
   review: true,
 });
 
+export const insertCommentSchema = createInsertSchema(comments, {
+  body: (schema) => schema.trim().min(1).max(5000),
+}).pick({
+  resourceId: true,
+  userId: true,
+  parentId: true,
+  body: true,
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1).max(2000),
+});
+
+export const insertReviewVoteSchema = createInsertSchema(reviewVotes).pick({
+  resourceId: true,
+  reviewerId: true,
+  voterId: true,
+  helpful: true,
+});
+
 export const insertTagSchema = createInsertSchema(tags).pick({
   name: true,
 });
@@ -191,30 +412,170 @@ export const insertFavoriteSchema = createInsertSchema(favorites).pick({
   resourceId: true,
 });
 
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: (schema) => schema.trim().min(1).max(100),
+  query: (schema) => schema.max(2000),
+}).pick({
+  userId: true,
+  name: true,
+  query: true,
+});
+
 // TypeScript types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert; // Required by Replit Auth
 
 export type InsertResource = z.infer<typeof insertResourceSchema>;
-export type Resource = typeof resources.$inferSelect;
+// The search vector is an internal index column and never leaves the server
+export type Resource = Omit<typeof resources.$inferSelect, "searchVector" | "extractedText">;
 
 export type InsertRating = z.infer<typeof insertRatingSchema>;
 export type Rating = typeof ratings.$inferSelect;
 
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
+export type CommentEdit = typeof commentEdits.$inferSelect;
+
+export type DownloadEvent = typeof downloadEvents.$inferSelect;
+
+export type InsertReviewVote = z.infer<typeof insertReviewVoteSchema>;
+export type ReviewVote = typeof reviewVotes.$inferSelect;
+
 export type InsertTag = z.infer<typeof insertTagSchema>;
 export type Tag = typeof tags.$inferSelect;
 
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
 
-// Extended types with relations
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+
+// Public display fields of a resource's uploader
+export type ResourceUploader = Pick<User, "id" | "username" | "firstName" | "lastName" | "fullName" | "profileImageUrl">;
+
+// An active resource with exactly the same file as a new upload, returned
+// with a 409 so the uploader can look at it before publishing anyway
+export type DuplicateResource = Pick<Resource, "id" | "title" | "subject" | "createdAt"> & {
+  uploadedBy: ResourceUploader;
+};
+
+// A resource whose text is probably the same document as a new upload,
+// with the estimated share of overlapping text (0-1)
+export type NearDuplicate = DuplicateResource & {
+  similarity: number;
+};
+
+// POST /api/resources response: the new resource plus likely near-duplicates
+export type CreatedResource = Resource & {
+  nearDuplicates: NearDuplicate[];
+};
+
+// Resources that are copies or near-copies of each other, for the admin
+// report; pairs lists the links that put them in one cluster
+export type DuplicateCluster = {
+  resources: DuplicateResource[];
+  pairs: { resourceIds: [string, string]; similarity: number }[];
+};
+
+// A review together with the public profile of the student who wrote it
+export type RatingWithUser = Rating & {
+  user: ResourceUploader;
+};
+
+// Review as returned by the ratings listing, with vote totals. viewerVote is
+// the caller's own vote (true = helpful), or null when they have not voted.
+export type ReviewListItem = RatingWithUser & {
+  helpfulCount: number;
+  notHelpfulCount: number;
+  viewerVote: boolean | null;
+};
+
+// Comment as returned by the API. body is null when the comment was deleted,
+// or hidden by an admin and the caller is not an admin.
+export type CommentWithAuthor = Omit<Comment, "body" | "hiddenById"> & {
+  body: string | null;
+  author: ResourceUploader;
+};
+
+// A top-level comment with every reply in its thread, oldest first; nest
+// replies under their parentId to render the tree
+export type CommentThread = CommentWithAuthor & {
+  replies: CommentWithAuthor[];
+};
+
+// Star histogram for a resource's reviews
+export type RatingSummary = {
+  averageRating: number; // Same weighted average as the resource's averageRating
+  ratingCount: number;
+  verifiedCount: number; // Ratings from students who downloaded the file
+  distribution: { stars: number; count: number }[]; // 5 down to 1, including empty buckets
+};
+
+// Downloads of a resource on one UTC day (yyyy-mm-dd), for its history chart
+export type DownloadHistoryDay = {
+  date: string;
+  downloads: number; // Including repeats
+  uniqueDownloads: number;
+};
+
+// Extended types with relations. Ratings are newest first; isFavorited and
+// userRating describe the calling user (false/null when signed out).
 export type ResourceWithDetails = Omit<Resource, "averageRating" | "ratingCount"> & {
-  uploadedBy: User;
-  ratings: Rating[];
+  uploadedBy: ResourceUploader;
+  ratings: RatingWithUser[];
   resourceTags: (typeof resourceTags.$inferSelect & { tag: Tag })[];
   averageRating: number;
   ratingCount: number;
+  isFavorited: boolean;
+  userRating: number | null;
+};
+
+// Resource as returned by list endpoints. snippet holds the search excerpt
+// with matches wrapped in <mark></mark> when highlighting was requested;
+// isFavorited and userRating describe the calling user (false/null when
+// signed out).
+export type ResourceListItem = Resource & {
+  snippet: string | null;
+  uploadedBy: ResourceUploader;
+  tags: string[];
+  isFavorited: boolean;
+  userRating: number | null;
+};
+
+// One page of a cursor-paginated listing; pass nextCursor back as ?cursor=
+// to fetch the following page
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+  totalCount: number;
+};
+
+// /api/resources page, with a "did you mean" correction for empty searches
+export type ResourcePage = Page<ResourceListItem> & {
+  suggestion: string | null;
+};
+
+// Number of resources matching the current filters for one filter option
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+export type ResourceFacets = {
+  subjects: FacetCount[];
+  semesters: FacetCount[];
+  fileTypes: FacetCount[]; // Keyed by file type family (FILE_TYPE_FAMILIES in shared/fileTypes.ts), or "other"
+  tags: FacetCount[];
+  ratings: FacetCount[]; // Keyed by minimum average rating, e.g. "4" for 4+ stars
+};
+
+// Instant results for the global search palette, grouped by entity
+export type SearchSuggestions = {
+  resources: Pick<Resource, "id" | "title" | "subject" | "fileType">[];
+  subjects: FacetCount[]; // Counts are active resources in that subject
+  tags: FacetCount[]; // Counts are active resources with that tag
+  contributors: ResourceUploader[];
 };
 
 export type UserWithStats = User & {